@@ -1,27 +1,57 @@
 /**
  * Centralised mapping of Feishu Bitable field display names used by the plugin.
  * Keeping the field name strings in one place helps avoid typos and makes
- * future renaming straightforward.
+ * future renaming straightforward. `aliases` are the metric (or imperial)
+ * spellings of the same column, tried when the primary name is not found. The
+ * unit in a header's parentheses decides how its values are read and written
+ * (see `core/headerUnits.ts`); the panel's unit settings cover the rest.
  */
 export const FIELD_KEYS = {
-  itemHeight: { name: "Item Height (inch)", type: 2 },
-  itemWidth: { name: "Item Width (inch)", type: 2 },
-  itemDepth: { name: "Item Depth (inch)", type: 2 },
-  itemWeight: { name: "Item Weight ( g )", type: 2 },
-  innerWidth: { name: "Inner Width (inch)", type: 2 },
-  innerDepth: { name: "Inner Depth (inch)", type: 2 },
-  innerHeight: { name: "Inner Height (inch)", type: 2 },
-  innerWeight: { name: "Inner Weight (lbs)", type: 2 },
-  innerQty: { name: "Inner Qty", type: 2 },
-  masterQty: { name: "Master Qty", type: 2 },
-  masterHeight: { name: "Master Height (inch)", type: 2 },
-  masterWidth: { name: "Master Width (inch)", type: 2 },
-  masterDepth: { name: "Master Depth (inch)", type: 2 },
-  netWeight: { name: "N.W. (kg)", type: 2 },
+  itemHeight: { name: "Item Height (inch)", type: 2, aliases: ["Item Height (cm)", "Item Height (mm)"] },
+  itemWidth: { name: "Item Width (inch)", type: 2, aliases: ["Item Width (cm)", "Item Width (mm)"] },
+  itemDepth: { name: "Item Depth (inch)", type: 2, aliases: ["Item Depth (cm)", "Item Depth (mm)"] },
+  itemWeight: { name: "Item Weight ( g )", type: 2, aliases: ["Item Weight (kg)", "Item Weight (lbs)"] },
+  innerWidth: { name: "Inner Width (inch)", type: 2, aliases: ["Inner Width (cm)"] },
+  innerDepth: { name: "Inner Depth (inch)", type: 2, aliases: ["Inner Depth (cm)"] },
+  innerHeight: { name: "Inner Height (inch)", type: 2, aliases: ["Inner Height (cm)"] },
+  innerWeight: { name: "Inner Weight (lbs)", type: 2, aliases: ["Inner Weight (kg)"] },
+  innerQty: { name: "Inner Qty", type: 2, aliases: [] },
+  masterQty: { name: "Master Qty", type: 2, aliases: [] },
+  masterHeight: { name: "Master Height (inch)", type: 2, aliases: ["Master Height (cm)"] },
+  masterWidth: { name: "Master Width (inch)", type: 2, aliases: ["Master Width (cm)"] },
+  masterDepth: { name: "Master Depth (inch)", type: 2, aliases: ["Master Depth (cm)"] },
+  netWeight: { name: "N.W. (kg)", type: 2, aliases: ["N.W. (lbs)"] },
 } as const;
 
 export const OPTIONAL_FIELD_KEYS = {
   itemCode: { name: "ITEM#" },
+  orientation: { name: "Orientation", aliases: ["This Side Up"] },
+  innerMaterial: { name: "Inner Material" },
+  innerBuffer: { name: "Inner Buffer", type: 2 },
+  masterBuffer: { name: "Master Buffer", type: 2 },
+  innerPerMaster: { name: "Inner per Master", type: 2 },
+  innerInternalWidth: { name: "Inner Internal Width (inch)", type: 2, aliases: ["Inner Internal Width (cm)"] },
+  innerInternalDepth: { name: "Inner Internal Depth (inch)", type: 2, aliases: ["Inner Internal Depth (cm)"] },
+  innerInternalHeight: { name: "Inner Internal Height (inch)", type: 2, aliases: ["Inner Internal Height (cm)"] },
+  masterInternalWidth: { name: "Master Internal Width (inch)", type: 2, aliases: ["Master Internal Width (cm)"] },
+  masterInternalDepth: { name: "Master Internal Depth (inch)", type: 2, aliases: ["Master Internal Depth (cm)"] },
+  masterInternalHeight: { name: "Master Internal Height (inch)", type: 2, aliases: ["Master Internal Height (cm)"] },
+  masterGrossWeightKg: { name: "G.W. (kg)", type: 2 },
+  masterGrossWeightLb: { name: "G.W. (lbs)", type: 2 },
+  masterCbm: { name: "CBM", type: 2 },
+  masterCubeFeet: { name: "Cube Feet", type: 2 },
+  cartonsPerContainer: { name: "Cartons per Container", type: 2 },
+  unitsPerContainer: { name: "Units per Container", type: 2 },
+  cartonsPerLayer: { name: "Cartons per Layer", type: 2 },
+  layersPerPallet: { name: "Layers per Pallet", type: 2 },
+  cartonsPerPallet: { name: "Cartons per Pallet", type: 2 },
+  palletHeight: { name: "Pallet Height (inch)", type: 2, aliases: ["Pallet Height (cm)"] },
+  palletWeight: { name: "Pallet Weight (kg)", type: 2 },
+  dimWeightKg: { name: "DIM Weight (kg)", type: 2 },
+  dimWeightLb: { name: "DIM Weight (lbs)", type: 2 },
+  billableWeightKg: { name: "Billable Weight (kg)", type: 2 },
+  billableWeightLb: { name: "Billable Weight (lbs)", type: 2 },
+  packCheck: { name: "Pack Check", type: 1 },
 } as const;
 
 export type FieldKey = keyof typeof FIELD_KEYS;
@@ -43,4 +73,31 @@ export interface FieldIds {
   masterDepth: string;
   netWeight: string;
   itemCode: string;
+  orientation: string;
+  innerMaterial: string;
+  innerBuffer: string;
+  masterBuffer: string;
+  innerPerMaster: string;
+  innerInternalWidth: string;
+  innerInternalDepth: string;
+  innerInternalHeight: string;
+  masterInternalWidth: string;
+  masterInternalDepth: string;
+  masterInternalHeight: string;
+  masterGrossWeightKg: string;
+  masterGrossWeightLb: string;
+  masterCbm: string;
+  masterCubeFeet: string;
+  cartonsPerContainer: string;
+  unitsPerContainer: string;
+  cartonsPerLayer: string;
+  layersPerPallet: string;
+  cartonsPerPallet: string;
+  palletHeight: string;
+  palletWeight: string;
+  dimWeightKg: string;
+  dimWeightLb: string;
+  billableWeightKg: string;
+  billableWeightLb: string;
+  packCheck: string;
 }
@@ -0,0 +1,90 @@
+import type { FieldMetaLike } from "../utils/field";
+
+/**
+ * The base, table, view and notification calls the packing engine relies on.
+ * The Lark SDK implementation lives in `larkAdapter.ts`; `memoryAdapter.ts`
+ * runs the same engine headless.
+ */
+
+export interface RecordSnapshot {
+  recordId: string;
+  fields: Record<string, unknown>;
+}
+
+export interface RecordUpdate {
+  recordId: string;
+  fields: Record<string, unknown>;
+}
+
+export interface RecordPage {
+  records: RecordSnapshot[];
+  hasMore: boolean;
+  pageToken?: string;
+}
+
+/** Event envelope of the SDK: every callback receives `{ data }`. */
+export interface AdapterEvent<T = unknown> {
+  data: T;
+}
+
+/** `onRecordModify`: the cells of one record that changed. */
+export type RecordModifyEvent = AdapterEvent<{ recordId: string; fieldIds: string[] }>;
+
+/** `onRecordAdd` / `onRecordDelete`. */
+export type RecordIdEvent = AdapterEvent<[recordId: string]>;
+
+/** `onSelectionChange`: the cell, record, view and table now selected. */
+export type SelectionEvent = AdapterEvent<{
+  tableId: string | null;
+  viewId: string | null;
+  recordId: string | null;
+  fieldId: string | null;
+}>;
+
+export type EventHandler<E> = (event: E) => void;
+
+/** Stops listening; returned by the `on…` subscriptions. */
+export type Unsubscribe = () => void;
+
+export interface TableAdapter {
+  readonly id: string;
+  getName(): Promise<string>;
+  getFieldMetaList(): Promise<FieldMetaLike[]>;
+  /** One page of the records of a view, in view order. */
+  getRecords(request: { viewId: string; pageSize: number; pageToken?: string }): Promise<RecordPage>;
+  /** Records in the order of `recordIds`; unknown ids come back with empty fields. */
+  getRecordsByIds(recordIds: string[]): Promise<RecordSnapshot[]>;
+  setRecords(updates: RecordUpdate[]): Promise<void>;
+  /** Cell edits, including the plugin's own writes. */
+  onRecordModify(handler: EventHandler<RecordModifyEvent>): Unsubscribe;
+  onRecordAdd(handler: EventHandler<RecordIdEvent>): Unsubscribe;
+  onRecordDelete(handler: EventHandler<RecordIdEvent>): Unsubscribe;
+  onFieldAdd(handler: EventHandler<AdapterEvent>): Unsubscribe;
+  onFieldModify(handler: EventHandler<AdapterEvent>): Unsubscribe;
+  onFieldDelete(handler: EventHandler<AdapterEvent>): Unsubscribe;
+}
+
+/** The Base holding the tables; view switches surface as selection changes. */
+export interface BaseAdapter {
+  /** The table with this id, or null when it no longer exists. */
+  getTableById(tableId: string): Promise<TableAdapter | null>;
+  /** The Base user running the plugin; "" when the host cannot tell. */
+  getUserId(): Promise<string>;
+  onSelectionChange(handler: EventHandler<SelectionEvent>): Unsubscribe;
+  onTableAdd(handler: EventHandler<AdapterEvent>): Unsubscribe;
+  onTableDelete(handler: EventHandler<AdapterEvent>): Unsubscribe;
+}
+
+export interface ViewAdapter {
+  readonly id: string;
+  getName(): Promise<string>;
+  getSelectedRecordIdList(): Promise<string[]>;
+  getVisibleRecordIdList(): Promise<string[]>;
+}
+
+export type NoticeVariant = "info" | "success" | "warning" | "error";
+
+/** Host notifications (toasts) raised by the engine itself. */
+export interface Notifier {
+  notify(message: string, variant: NoticeVariant): Promise<void>;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { computeBestArrangement, computeGirth, searchArrangements } from "./arrangement";
+
+describe("computeBestArrangement", () => {
+  it("returns null for a zero quantity", () => {
+    const dims = { width: 1, depth: 1, height: 1 };
+    expect(computeBestArrangement(0, dims, 0)).toBeNull();
+  });
+
+  it("adds the buffer once per axis to the item rows", () => {
+    const best = computeBestArrangement(1, { width: 4, depth: 3, height: 2 }, 1);
+    expect(best).toMatchObject({ width: 5, depth: 4, height: 3, counts: [1, 1, 1] });
+    expect(best?.cubeFeet).toBeCloseTo(60 / 1728, 10);
+  });
+
+  it("picks the split of the quantity with the smallest volume", () => {
+    // 8 cubes with a 1" buffer: 2×2×2 gives 5×5×5, 1×1×8 would be 3×3×17.
+    const best = computeBestArrangement(8, { width: 2, depth: 2, height: 2 }, 1);
+    expect(best?.counts).toEqual([2, 2, 2]);
+    expect([best?.width, best?.depth, best?.height]).toEqual([5, 5, 5]);
+  });
+
+  it("keeps the item axes when rotation is not allowed", () => {
+    // 10×5×2 item, 2 units, 0.5" buffer: stacking (1×1×2) is the smallest box.
+    const best = computeBestArrangement(2, { width: 10, depth: 5, height: 2 }, 0.5, "fixed");
+    expect(best?.counts).toEqual([1, 1, 2]);
+    expect(best?.orientation).toEqual(["width", "depth", "height"]);
+    expect([best?.width, best?.depth, best?.height]).toEqual([10.5, 5.5, 4.5]);
+  });
+
+  it("keeps the item height vertical in upright mode", () => {
+    const best = computeBestArrangement(1, { width: 2, depth: 2, height: 10 }, 0, "upright");
+    expect(best?.orientation[2]).toBe("height");
+    expect(best?.height).toBe(10);
+  });
+
+  it("adds the wall thickness on both sides outside the internal size", () => {
+    const best = computeBestArrangement(1, { width: 4, depth: 3, height: 2 }, 1, "fixed", 0.25);
+    expect(best?.internal).toEqual({ width: 5, depth: 4, height: 3 });
+    expect([best?.width, best?.depth, best?.height]).toEqual([5.5, 4.5, 3.5]);
+  });
+});
+
+describe("searchArrangements", () => {
+  it("reports the candidates ruled out by a constraint", () => {
+    const result = searchArrangements(4, { width: 10, depth: 10, height: 10 }, 0, {
+      constraints: { maxSide: 25 },
+    });
+    expect(result.best).not.toBeNull();
+    expect(Math.max(result.best!.width, result.best!.depth, result.best!.height)).toBeLessThanOrEqual(
+      25
+    );
+    expect(result.rejections.length).toBeGreaterThan(0);
+    expect(result.rejections.every(({ violations }) => violations[0].constraint === "maxSide")).toBe(
+      true
+    );
+  });
+
+  it("computes the girth from the longest side", () => {
+    expect(computeGirth(10, 30, 20)).toBe(30 + 2 * 20 + 2 * 10);
+  });
+});
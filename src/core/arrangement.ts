@@ -1,3 +1,9 @@
+import {
+  DEFAULT_OBJECTIVE,
+  compareCandidates,
+  type ArrangementObjective,
+} from "./objectives";
+
 export type ArrangementCounts = [number, number, number];
 
 export interface ArrangementInput {
@@ -6,12 +12,136 @@ export interface ArrangementInput {
   height: number;
 }
 
+export type ItemAxis = "width" | "depth" | "height";
+
+/** Item axis lying along the carton width, depth and height respectively. */
+export type ArrangementOrientation = [ItemAxis, ItemAxis, ItemAxis];
+
+/**
+ * Which item rotations are allowed:
+ * - `any`: all six orientations.
+ * - `upright`: "this side up", the item height stays vertical.
+ * - `fixed`: no rotation, item axes map straight onto the carton axes.
+ */
+export type OrientationMode = "any" | "upright" | "fixed";
+
+/**
+ * External carton size (inches) plus the internal size the factory cuts to.
+ * Without wall thickness the two are the same.
+ */
 export interface ArrangementResult {
   width: number;
   depth: number;
   height: number;
+  internal: ArrangementInput;
+  /** Size of one packed unit along the carton width, depth and height. */
+  unit: ArrangementInput;
+  /** External volume. */
   cubeFeet: number;
   counts: ArrangementCounts;
+  orientation: ArrangementOrientation;
+}
+
+/**
+ * Carrier/DC limits a carton must respect. Lengths are inches; a missing or
+ * non-positive value means "no limit".
+ */
+export interface ArrangementConstraints {
+  maxGrossWeightKg?: number | null;
+  /** Longest allowed single side. */
+  maxSide?: number | null;
+  /** Longest allowed L + 2W + 2H, L being the longest side. */
+  maxGirth?: number | null;
+  /** Most units stacked along the carton height. */
+  maxLayers?: number | null;
+}
+
+export type ConstraintKey = keyof ArrangementConstraints;
+
+export interface ConstraintViolation {
+  constraint: ConstraintKey;
+  actual: number;
+  limit: number;
+}
+
+export interface ArrangementRejection {
+  candidate: ArrangementResult;
+  violations: ConstraintViolation[];
+}
+
+export interface ArrangementSearchOptions {
+  mode?: OrientationMode;
+  /** Board thickness added on both sides of every axis, on top of the buffer. */
+  wallInch?: number;
+  /** Ranking used to pick the best candidate; minimum volume by default. */
+  objective?: ArrangementObjective;
+  constraints?: ArrangementConstraints;
+  /**
+   * Gross weight of the packed carton, checked against `maxGrossWeightKg`.
+   * A function when the tare depends on the carton size.
+   */
+  grossWeightKg?: number | null | ((candidate: ArrangementResult) => number | null);
+}
+
+export interface ArrangementSearchResult {
+  best: ArrangementResult | null;
+  /**
+   * Candidates meeting every constraint, best first. Rotations giving the
+   * same footprint and height are listed once.
+   */
+  ranked: ArrangementResult[];
+  /** Candidates ruled out by a constraint, in search order. */
+  rejections: ArrangementRejection[];
+}
+
+// The unrotated orientation comes first so it wins ties (the ranking sort is
+// stable and the first of equivalent rotations is kept).
+const ORIENTATIONS: ArrangementOrientation[] = [
+  ["width", "depth", "height"],
+  ["depth", "width", "height"],
+  ["width", "height", "depth"],
+  ["height", "width", "depth"],
+  ["depth", "height", "width"],
+  ["height", "depth", "width"],
+];
+
+const AXIS_LABELS: Record<ItemAxis, string> = {
+  width: "W",
+  depth: "D",
+  height: "H",
+};
+
+function getOrientations(mode: OrientationMode): ArrangementOrientation[] {
+  if (mode === "fixed") return ORIENTATIONS.slice(0, 1);
+  if (mode === "upright") return ORIENTATIONS.filter(([, , up]) => up === "height");
+  return ORIENTATIONS;
+}
+
+export function isRotated(orientation: ArrangementOrientation): boolean {
+  return (
+    orientation[0] !== "width" ||
+    orientation[1] !== "depth" ||
+    orientation[2] !== "height"
+  );
+}
+
+/** e.g. `D×W×H`: the item axis placed along carton width × depth × height. */
+export function formatOrientation(orientation: ArrangementOrientation): string {
+  return orientation.map((axis) => AXIS_LABELS[axis]).join("×");
+}
+
+/**
+ * Reads a per-record orientation cell. Accepts English and Chinese labels;
+ * returns null for empty or unrecognised values.
+ */
+export function parseOrientationMode(text: string | null): OrientationMode | null {
+  if (!text) return null;
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  if (/(this\s*side\s*up|upright|向上|朝上|竖放)/.test(value)) return "upright";
+  if (/(fixed|no\s*rotation|固定|不可旋转)/.test(value)) return "fixed";
+  if (/(any|free|任意|可旋转)/.test(value)) return "any";
+  return null;
 }
 
 function uniquePermutations(triple: ArrangementCounts): ArrangementCounts[] {
@@ -60,27 +190,113 @@ function generateFactorTriples(quantity: number): ArrangementCounts[] {
   return results;
 }
 
-export function computeBestArrangement(
+function isLimit(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+export function computeGirth(width: number, depth: number, height: number): number {
+  const [length, ...rest] = [width, depth, height].sort((a, b) => b - a);
+  return length + 2 * rest[0] + 2 * rest[1];
+}
+
+function checkConstraints(
+  candidate: ArrangementResult,
+  constraints: ArrangementConstraints,
+  grossWeightKg: number | null
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const { maxGrossWeightKg, maxSide, maxGirth, maxLayers } = constraints;
+  if (isLimit(maxGrossWeightKg) && grossWeightKg != null && grossWeightKg > maxGrossWeightKg) {
+    violations.push({ constraint: "maxGrossWeightKg", actual: grossWeightKg, limit: maxGrossWeightKg });
+  }
+  const longest = Math.max(candidate.width, candidate.depth, candidate.height);
+  if (isLimit(maxSide) && longest > maxSide) {
+    violations.push({ constraint: "maxSide", actual: longest, limit: maxSide });
+  }
+  const girth = computeGirth(candidate.width, candidate.depth, candidate.height);
+  if (isLimit(maxGirth) && girth > maxGirth) {
+    violations.push({ constraint: "maxGirth", actual: girth, limit: maxGirth });
+  }
+  const layers = candidate.counts[2];
+  if (isLimit(maxLayers) && layers > maxLayers) {
+    violations.push({ constraint: "maxLayers", actual: layers, limit: maxLayers });
+  }
+  return violations;
+}
+
+/**
+ * Ranks every layout of `quantity` units by `options.objective` (volume,
+ * footprint, height, … — smallest carton volume by default) and also reports
+ * every candidate a constraint ruled out, so callers can explain an empty
+ * result.
+ */
+export function searchArrangements(
   quantity: number,
   dims: ArrangementInput,
-  bufferInch: number
-): ArrangementResult | null {
+  bufferInch: number,
+  options: ArrangementSearchOptions = {}
+): ArrangementSearchResult {
+  const {
+    mode = "any",
+    wallInch = 0,
+    objective = DEFAULT_OBJECTIVE,
+    constraints = {},
+    grossWeightKg = null,
+  } = options;
+  const rejections: ArrangementRejection[] = [];
   const triples = generateFactorTriples(quantity);
-  if (!triples.length) return null;
-
-  let best: ArrangementResult | null = null;
-  for (const counts of triples) {
-    const [countW, countD, countH] = counts;
-    const width = countW * dims.width + bufferInch;
-    const depth = countD * dims.depth + bufferInch;
-    const height = countH * dims.height + bufferInch;
-    if ([width, depth, height].some((value) => !Number.isFinite(value) || value <= 0)) {
-      continue;
-    }
-    const cubeFeet = (width * depth * height) / 1728;
-    if (!best || cubeFeet < best.cubeFeet) {
-      best = { width, depth, height, cubeFeet, counts };
+  if (!triples.length) return { best: null, ranked: [], rejections };
+
+  const accepted = new Map<string, ArrangementResult>();
+  for (const orientation of getOrientations(mode)) {
+    const [axisW, axisD, axisH] = orientation;
+    for (const counts of triples) {
+      const [countW, countD, countH] = counts;
+      const internal = {
+        width: countW * dims[axisW] + bufferInch,
+        depth: countD * dims[axisD] + bufferInch,
+        height: countH * dims[axisH] + bufferInch,
+      };
+      const width = internal.width + 2 * wallInch;
+      const depth = internal.depth + 2 * wallInch;
+      const height = internal.height + 2 * wallInch;
+      if ([width, depth, height].some((value) => !Number.isFinite(value) || value <= 0)) {
+        continue;
+      }
+      const candidate = {
+        width,
+        depth,
+        height,
+        internal,
+        unit: { width: dims[axisW], depth: dims[axisD], height: dims[axisH] },
+        cubeFeet: (width * depth * height) / 1728,
+        counts,
+        orientation,
+      };
+      const violations = checkConstraints(
+        candidate,
+        constraints,
+        typeof grossWeightKg === "function" ? grossWeightKg(candidate) : grossWeightKg
+      );
+      if (violations.length) {
+        rejections.push({ candidate, violations });
+        continue;
+      }
+      const footprint = [width, depth].map((value) => value.toFixed(6)).sort();
+      const key = `${footprint.join("x")}x${height.toFixed(6)}`;
+      if (!accepted.has(key)) accepted.set(key, candidate);
     }
   }
-  return best;
+  const ranked = [...accepted.values()].sort((a, b) => compareCandidates(objective, a, b));
+  return { best: ranked[0] ?? null, ranked, rejections };
+}
+
+export function computeBestArrangement(
+  quantity: number,
+  dims: ArrangementInput,
+  bufferInch: number,
+  mode: OrientationMode = "any",
+  wallInch = 0
+): ArrangementResult | null {
+  return searchArrangements(quantity, dims, bufferInch, { mode, wallInch }).best;
 }
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { runAudit } from "./audit";
+import { createMemoryStorage } from "./memoryAdapter";
+import { t } from "../i18n";
+import { setPluginStorage } from "../utils/storage";
+import { calculationOptions, createSolBase, type TestRow } from "../test/memoryBase";
+
+const item: TestRow = {
+  itemCode: "SOL-1",
+  itemWidth: 4,
+  itemDepth: 3,
+  itemHeight: 2,
+  itemWeight: 150,
+};
+
+const tolerances = { length: 0.05, weightRatio: 0.02 };
+
+beforeEach(() => {
+  setPluginStorage(createMemoryStorage());
+});
+
+describe("runAudit", () => {
+  it("compares the stored sizes with the recomputed ones", async () => {
+    const base = createSolBase([
+      { ...item, innerQty: 1, masterQty: 1, innerWidth: 7, innerDepth: 3, innerHeight: 2 },
+    ]);
+    const result = await runAudit(base.context, { ...calculationOptions(), tolerances });
+
+    expect(result.records[0].findings).toContainEqual({
+      kind: "mismatch",
+      message: t("audit.mismatch", { field: "Inner Width (inch)", stored: 7, expected: 4 }),
+    });
+    expect(base.table.writes).toEqual([]);
+  });
+
+  it("reads the records once", async () => {
+    const base = createSolBase([
+      { ...item, innerQty: 1, masterQty: 1 },
+      { ...item, innerQty: 2, masterQty: 4 },
+    ]);
+    let reads = 0;
+    const { getRecords, getRecordsByIds } = base.table;
+    base.table.getRecords = (request) => {
+      reads += 1;
+      return getRecords(request);
+    };
+    base.table.getRecordsByIds = (recordIds) => {
+      reads += 1;
+      return getRecordsByIds(recordIds);
+    };
+
+    const result = await runAudit(base.context, { ...calculationOptions(), tolerances });
+
+    expect(result.records).toHaveLength(2);
+    expect(reads).toBe(1);
+  });
+});
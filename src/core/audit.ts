@@ -0,0 +1,225 @@
+import { FIELD_KEYS, OPTIONAL_FIELD_KEYS, type FieldIds } from "../config/fields";
+import {
+  readTextCell,
+  runCalculation,
+  type CalculationOptions,
+  type FieldChange,
+  type RecordPlan,
+  type UnitSettings,
+} from "./calculator";
+import type { PluginContext } from "./context";
+import { t, type MessageKey } from "../i18n";
+import {
+  convertGramsToWeight,
+  convertWeightToGrams,
+  extractNumber,
+  round,
+} from "../utils/numbers";
+
+export interface AuditTolerances {
+  /** Allowed difference of a carton size, in the carton dimension unit. */
+  length: number;
+  /** Allowed relative difference of a weight, e.g. 0.02 for 2 %. */
+  weightRatio: number;
+}
+
+export type AuditFindingKind = "mismatch" | "impossible" | "missing";
+
+export interface AuditFinding {
+  kind: AuditFindingKind;
+  message: string;
+}
+
+export interface AuditRecord {
+  recordId: string;
+  label: string;
+  findings: AuditFinding[];
+}
+
+export interface AuditResult {
+  /** Every record of the view, including the ones without findings. */
+  records: AuditRecord[];
+  /** Pack Check writes; empty when the field is not mapped. */
+  packCheckPlans: RecordPlan[];
+}
+
+export type AuditOptions = Omit<
+  CalculationOptions,
+  | "forceAll"
+  | "dryRun"
+  | "recordIds"
+  | "quiet"
+  | "onLog"
+  | "onPalletPlan"
+  | "onArrangement"
+  | "onEvent"
+> & { tolerances: AuditTolerances };
+
+export const AUDIT_KIND_LABELS = {
+  mismatch: "audit.kind.mismatch",
+  impossible: "audit.kind.impossible",
+  missing: "audit.kind.missing",
+} as const satisfies Record<AuditFindingKind, MessageKey>;
+
+const LENGTH_KEYS: Array<keyof FieldIds> = [
+  "innerWidth",
+  "innerDepth",
+  "innerHeight",
+  "masterWidth",
+  "masterDepth",
+  "masterHeight",
+];
+
+const WEIGHT_KEYS: Array<keyof FieldIds> = [
+  "innerWeight",
+  "masterGrossWeightKg",
+  "masterGrossWeightLb",
+];
+
+function fieldName(key: keyof FieldIds): string {
+  const info =
+    (FIELD_KEYS as Record<string, { name: string }>)[key] ??
+    (OPTIONAL_FIELD_KEYS as Record<string, { name: string }>)[key];
+  return info?.name ?? key;
+}
+
+function withinWeightTolerance(stored: number, expected: number, ratio: number): boolean {
+  return Math.abs(stored - expected) <= Math.max(Math.abs(expected) * ratio, 0.001);
+}
+
+/** Compares one recomputed value with the stored cell, honouring the tolerances. */
+function compareChange(change: FieldChange, tolerances: AuditTolerances): AuditFinding | null {
+  const isLength = LENGTH_KEYS.includes(change.key);
+  if (!isLength && !WEIGHT_KEYS.includes(change.key)) return null;
+
+  const name = fieldName(change.key);
+  const stored = extractNumber(change.before);
+  const expected = typeof change.after === "number" ? change.after : null;
+  if (stored == null) {
+    if (expected == null) return null;
+    return { kind: "missing", message: t("audit.storedEmpty", { field: name, expected }) };
+  }
+  if (expected == null) {
+    return { kind: "mismatch", message: t("audit.expectedEmpty", { field: name, stored }) };
+  }
+  const within = isLength
+    ? Math.abs(stored - expected) <= tolerances.length
+    : withinWeightTolerance(stored, expected, tolerances.weightRatio);
+  return within
+    ? null
+    : { kind: "mismatch", message: t("audit.mismatch", { field: name, stored, expected }) };
+}
+
+/**
+ * Checks the stored values against each other: the inner carton must fit in
+ * the master carton and N.W. must equal item weight × Master Qty.
+ */
+function checkStoredValues(
+  fields: Record<string, unknown>,
+  fieldIds: FieldIds,
+  units: UnitSettings,
+  tolerances: AuditTolerances
+): AuditFinding[] {
+  const read = (key: keyof FieldIds) =>
+    fieldIds[key] ? extractNumber(fields[fieldIds[key]]) : null;
+  const findings: AuditFinding[] = [];
+
+  const inner = [read("innerWidth"), read("innerDepth"), read("innerHeight")];
+  const master = [read("masterWidth"), read("masterDepth"), read("masterHeight")];
+  const isSize = (list: Array<number | null>): list is number[] =>
+    list.every((value) => value != null && value > 0);
+  if ((read("innerQty") ?? 0) > 0 && isSize(inner) && isSize(master)) {
+    const innerSorted = [...inner].sort((a, b) => a - b);
+    const masterSorted = [...master].sort((a, b) => a - b);
+    if (innerSorted.some((value, index) => value > masterSorted[index] + tolerances.length)) {
+      findings.push({
+        kind: "impossible",
+        message: t("audit.innerTooBig", { inner: inner.join(" × "), master: master.join(" × ") }),
+      });
+    }
+  }
+
+  const netWeight = read("netWeight");
+  const itemWeight = read("itemWeight");
+  const masterQty = read("masterQty");
+  if (netWeight != null && itemWeight != null && itemWeight > 0 && masterQty != null && masterQty > 0) {
+    const expected = convertGramsToWeight(
+      convertWeightToGrams(itemWeight, units.itemWeight) * masterQty,
+      units.netWeight
+    );
+    if (!withinWeightTolerance(netWeight, expected, tolerances.weightRatio)) {
+      findings.push({
+        kind: "impossible",
+        message: t("audit.netWeight", {
+          field: fieldName("netWeight"),
+          stored: netWeight,
+          expected: round(expected, 3),
+        }),
+      });
+    }
+  }
+  return findings;
+}
+
+/** Pack Check text: "OK", or the findings grouped by kind. */
+export function formatPackCheck(findings: AuditFinding[]): string {
+  if (!findings.length) return "OK";
+  return findings
+    .map((finding) =>
+      t("audit.finding", { kind: t(AUDIT_KIND_LABELS[finding.kind]), message: finding.message })
+    )
+    .join(t("list.separator"));
+}
+
+/**
+ * Recomputes every record of the view with the panel settings and compares
+ * the result with what is stored. Nothing is written; the Pack Check plans
+ * are returned for the caller to apply.
+ */
+export async function runAudit(
+  context: PluginContext,
+  options: AuditOptions
+): Promise<AuditResult> {
+  const { tolerances, ...settings } = options;
+  const calculation = await runCalculation(context, {
+    ...settings,
+    forceAll: true,
+    dryRun: true,
+    quiet: true,
+    onLog: () => {},
+  });
+
+  const plansById = new Map(calculation.plans.map((plan) => [plan.recordId, plan]));
+  const fieldsById = new Map(
+    calculation.records.map((record) => [record.recordId, record.fields])
+  );
+  const { units, fieldIds } = calculation;
+
+  const result: AuditResult = { records: [], packCheckPlans: [] };
+  for (const report of calculation.reports) {
+    const findings: AuditFinding[] = [];
+    if (report.status !== "ok" && report.reason) {
+      findings.push({ kind: "missing", message: report.reason });
+    }
+    for (const change of plansById.get(report.recordId)?.changes ?? []) {
+      const finding = compareChange(change, tolerances);
+      if (finding) findings.push(finding);
+    }
+    const fields = fieldsById.get(report.recordId) ?? {};
+    findings.push(...checkStoredValues(fields, fieldIds, units, tolerances));
+    result.records.push({ recordId: report.recordId, label: report.label, findings });
+
+    if (fieldIds.packCheck) {
+      const before = fields[fieldIds.packCheck] ?? null;
+      const after = formatPackCheck(findings);
+      if (readTextCell(before) !== after) {
+        result.packCheckPlans.push({
+          recordId: report.recordId,
+          label: report.label,
+          changes: [{ key: "packCheck", fieldId: fieldIds.packCheck, before, after }],
+        });
+      }
+    }
+  }
+  return result;
+}
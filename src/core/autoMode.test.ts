@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { needsAutoRun } from "./autoMode";
+import { runCalculation } from "./calculator";
+import { createMemoryStorage } from "./memoryAdapter";
+import { writeRecords } from "./records";
+import { setPluginStorage } from "../utils/storage";
+import { calculationOptions, createSolBase, fieldId, type TestRow } from "../test/memoryBase";
+
+const item: TestRow = {
+  itemCode: "SOL-1",
+  itemWidth: 4,
+  itemDepth: 3,
+  itemHeight: 2,
+  itemWeight: 150,
+};
+
+function watch(base: ReturnType<typeof createSolBase>) {
+  const queued: string[] = [];
+  base.table.onRecordModify((event) => {
+    if (needsAutoRun(event.data, base.context.fieldIds)) queued.push(event.data.recordId);
+  });
+  return queued;
+}
+
+beforeEach(() => {
+  setPluginStorage(createMemoryStorage());
+});
+
+describe("needsAutoRun", () => {
+  it("queues a record when a trigger cell is edited", () => {
+    const base = createSolBase([{ itemCode: "SOL-1" }, { itemCode: "SOL-2" }]);
+    const queued = watch(base);
+
+    base.table.edit("rec1", { [fieldId("itemWidth")]: 5 });
+    base.table.edit("rec2", { [fieldId("itemCode")]: "SOL-3" });
+
+    expect(queued).toEqual(["rec1"]);
+  });
+
+  it("ignores the echo of the plugin's own write", async () => {
+    const base = createSolBase([{ ...item, innerQty: 1, masterQty: 1 }]);
+    const queued = watch(base);
+
+    await writeRecords(base.table, [{ recordId: "rec1", fields: { [fieldId("innerQty")]: 2 } }]);
+    await runCalculation(base.context, calculationOptions());
+    expect(base.table.writes.length).toBeGreaterThan(1);
+    expect(queued).toEqual([]);
+
+    // The echo is consumed once; a later user edit of the same cell counts.
+    base.table.edit("rec1", { [fieldId("innerQty")]: 1 });
+    expect(queued).toEqual(["rec1"]);
+  });
+});
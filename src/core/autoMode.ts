@@ -0,0 +1,33 @@
+import type { FieldIds } from "../config/fields";
+import type { RecordModifyEvent } from "./adapter";
+import { consumeOwnWrite } from "./records";
+
+/** Cells whose change triggers an automatic recalculation of the record. */
+export const AUTO_TRIGGER_KEYS = [
+  "itemWidth",
+  "itemDepth",
+  "itemHeight",
+  "itemWeight",
+  "innerQty",
+  "masterQty",
+  "innerMaterial",
+  "innerBuffer",
+  "masterBuffer",
+] as const satisfies ReadonlyArray<keyof FieldIds>;
+
+/**
+ * True when a record modify event changed a trigger cell. Echoes of the
+ * plugin's own writes are consumed for every field of the event, so they
+ * never start another run.
+ */
+export function needsAutoRun(change: RecordModifyEvent["data"], fieldIds: FieldIds): boolean {
+  const triggerIds = new Set<string>(
+    AUTO_TRIGGER_KEYS.map((key) => fieldIds[key]).filter(Boolean)
+  );
+  let triggered = false;
+  for (const fieldId of change.fieldIds) {
+    if (consumeOwnWrite(change.recordId, fieldId)) continue;
+    if (triggerIds.has(fieldId)) triggered = true;
+  }
+  return triggered;
+}
@@ -0,0 +1,355 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  computeMasterGrossWeightG,
+  resolveInnerBufferInches,
+  runCalculation,
+  type RecordEvent,
+  type UnitSettings,
+} from "./calculator";
+import { createMemoryStorage } from "./memoryAdapter";
+import { t } from "../i18n";
+import { setPluginStorage } from "../utils/storage";
+import {
+  calculationOptions,
+  createSolBase,
+  material,
+  renameFields,
+  type TestRow,
+} from "../test/memoryBase";
+
+const item: TestRow = {
+  itemCode: "SOL-1",
+  itemWidth: 4,
+  itemDepth: 3,
+  itemHeight: 2,
+  itemWeight: 150,
+};
+
+beforeEach(() => {
+  // Undo snapshots go to plugin storage; keep them off the Base bridge.
+  setPluginStorage(createMemoryStorage());
+});
+
+describe("inner carton", () => {
+  it("adds the inner buffer to a Box", async () => {
+    const base = createSolBase([{ ...item, innerQty: 1, masterQty: 1 }]);
+    await runCalculation(base.context, calculationOptions({ innerBuffer: 1 }));
+
+    expect(base.cell("rec1", "innerWidth")).toBe(5);
+    expect(base.cell("rec1", "innerDepth")).toBe(4);
+    expect(base.cell("rec1", "innerHeight")).toBe(3);
+  });
+
+  it("ignores the inner buffer for a Poly Bag", async () => {
+    const base = createSolBase([{ ...item, innerQty: 1, masterQty: 1 }]);
+    await runCalculation(
+      base.context,
+      calculationOptions({ innerBuffer: 1, innerMaterial: material("Poly Bag") })
+    );
+
+    expect(base.cell("rec1", "innerWidth")).toBe(4);
+    expect(base.cell("rec1", "innerDepth")).toBe(3);
+    expect(base.cell("rec1", "innerHeight")).toBe(2);
+    expect(resolveInnerBufferInches(2.54, "cm", material("Poly Bag"))).toBe(0);
+    expect(resolveInnerBufferInches(2.54, "cm", material("Box"))).toBeCloseTo(1, 10);
+  });
+
+  it("weighs a Box inner as (Inner Qty × item g + 100) × 0.00220462 lbs", async () => {
+    const base = createSolBase([{ ...item, innerQty: 6, masterQty: 24 }]);
+    await runCalculation(base.context, calculationOptions());
+
+    // (6 × 150 + 100) × 0.00220462 = 2.20462
+    expect(base.cell("rec1", "innerWeight")).toBe(2.205);
+  });
+
+  it("weighs a Poly Bag inner without the 100 g tare", async () => {
+    const base = createSolBase([{ ...item, innerQty: 6, masterQty: 24 }]);
+    await runCalculation(base.context, calculationOptions({ innerMaterial: material("Poly Bag") }));
+
+    // 6 × 150 × 0.00220462 = 1.984158
+    expect(base.cell("rec1", "innerWeight")).toBe(1.984);
+  });
+
+  it("clears the inner fields when Inner Qty is 0 or empty", async () => {
+    const stale: TestRow = { innerWidth: 9, innerDepth: 9, innerHeight: 9, innerWeight: 1.5 };
+    const base = createSolBase([
+      { ...item, ...stale, innerQty: 0, masterQty: 2 },
+      { ...item, ...stale, masterQty: 2 },
+    ]);
+    await runCalculation(base.context, calculationOptions());
+
+    for (const recordId of ["rec1", "rec2"]) {
+      expect(base.cell(recordId, "innerWidth")).toBeNull();
+      expect(base.cell(recordId, "innerDepth")).toBeNull();
+      expect(base.cell(recordId, "innerHeight")).toBeNull();
+      expect(base.cell(recordId, "innerWeight")).toBeNull();
+      // Without inners the master packs the items themselves.
+      expect(base.cell(recordId, "masterWidth")).not.toBeUndefined();
+    }
+  });
+});
+
+describe("per-record overrides", () => {
+  it("takes the inner packaging from the Inner Material column", async () => {
+    const base = createSolBase([
+      { ...item, innerQty: 1, masterQty: 1, innerMaterial: "poly bag" },
+      { ...item, innerQty: 1, masterQty: 1 },
+    ]);
+    await runCalculation(base.context, calculationOptions({ innerBuffer: 1 }));
+
+    expect(base.cell("rec1", "innerWidth")).toBe(4);
+    expect(base.cell("rec2", "innerWidth")).toBe(5);
+  });
+
+  it("takes the buffers from their columns and falls back to the panel", async () => {
+    const logs: string[] = [];
+    const base = createSolBase([
+      { ...item, innerQty: 1, masterQty: 1, innerBuffer: 2, masterBuffer: 1 },
+      { ...item, innerQty: 1, masterQty: 1, innerBuffer: -1 },
+    ]);
+    await runCalculation(
+      base.context,
+      calculationOptions({ innerBuffer: 1, onLog: (message) => logs.push(message) })
+    );
+
+    expect(base.cell("rec1", "innerWidth")).toBe(6);
+    expect(base.cell("rec2", "innerWidth")).toBe(5);
+    expect(logs).toContain(
+      t("calc.parameters", {
+        label: "#1 (SOL-1)",
+        material: "Box",
+        materialSource: t("calc.source.panel"),
+        innerBuffer: "2",
+        innerBufferUnit: "inch",
+        innerBufferSource: t("calc.source.column"),
+        masterBuffer: "1",
+        masterBufferUnit: "inch",
+        masterBufferSource: t("calc.source.column"),
+      })
+    );
+    expect(logs).toContain(
+      t("calc.bufferInvalid", { label: "#2 (SOL-1)", field: "Inner Buffer", value: -1 })
+    );
+  });
+
+  it("keeps the panel packaging when the column names an unknown one", async () => {
+    const logs: string[] = [];
+    const base = createSolBase([{ ...item, innerQty: 1, masterQty: 1, innerMaterial: "Crate" }]);
+    await runCalculation(
+      base.context,
+      calculationOptions({ innerBuffer: 1, onLog: (message) => logs.push(message) })
+    );
+
+    expect(base.cell("rec1", "innerWidth")).toBe(5);
+    expect(logs).toContain(t("calc.materialUnknown", { label: "#1 (SOL-1)", value: "Crate" }));
+  });
+});
+
+describe("record checks", () => {
+  it("skips a record with a decimal Inner Qty or Master Qty", async () => {
+    const base = createSolBase([
+      { ...item, innerQty: 2.5, masterQty: 10 },
+      { ...item, innerQty: 2, masterQty: 4.5 },
+    ]);
+    const result = await runCalculation(base.context, calculationOptions());
+
+    expect(result.reports.map((report) => report.status)).toEqual(["skipped", "skipped"]);
+    expect(result.reports[0].reason).toContain("Inner Qty 需为整数");
+    expect(result.reports[1].reason).toContain("Master Qty 需为整数");
+    expect(base.table.writes).toHaveLength(0);
+  });
+
+  it("skips the master when Master Qty is not a multiple of Inner Qty", async () => {
+    const base = createSolBase([{ ...item, innerQty: 4, masterQty: 10 }]);
+    const result = await runCalculation(base.context, calculationOptions());
+
+    expect(result.reports[0].status).toBe("skipped");
+    expect(result.reports[0].reason).toContain("无法被 Inner Qty (4) 整除");
+    // The inner carton is still written; the master is left alone.
+    expect(base.cell("rec1", "innerWidth")).not.toBeUndefined();
+    expect(base.cell("rec1", "masterWidth")).toBeUndefined();
+    expect(base.cell("rec1", "innerPerMaster")).toBeUndefined();
+  });
+
+  it("warns about a zero Master Qty unless the run is quiet", async () => {
+    const base = createSolBase([{ ...item, innerQty: 2, masterQty: 0 }]);
+    await runCalculation(base.context, calculationOptions());
+    expect(base.notifier.notices).toEqual([
+      { message: t("calc.casePackZero"), variant: "warning" },
+    ]);
+
+    await runCalculation(base.context, calculationOptions({ quiet: true }));
+    expect(base.notifier.notices).toHaveLength(1);
+  });
+
+  it("skips rows without item dimensions", async () => {
+    const base = createSolBase([{ innerQty: 2, masterQty: 4 }]);
+    const result = await runCalculation(base.context, calculationOptions());
+
+    expect(result.reports[0]).toMatchObject({ status: "skipped" });
+    expect(result.reports[0].reason).toContain("未填写完整的产品尺寸");
+    expect(base.table.writes).toHaveLength(0);
+  });
+});
+
+describe("master carton", () => {
+  it("packs the inner cartons and computes N.W. = item g × Master Qty ÷ 1000", async () => {
+    const base = createSolBase([{ ...item, innerQty: 6, masterQty: 24 }]);
+    const result = await runCalculation(base.context, calculationOptions());
+
+    expect(result.reports[0].status).toBe("ok");
+    expect(base.cell("rec1", "innerPerMaster")).toBe(4);
+    expect(base.cell("rec1", "netWeight")).toBe(3.6);
+    const inner = result.reports[0].inner!;
+    const master = result.reports[0].master!;
+    // No buffers: four inners fill the master exactly.
+    expect(master.width * master.depth * master.height).toBeCloseTo(
+      4 * inner.width * inner.depth * inner.height,
+      6
+    );
+  });
+
+  it("writes N.W. in lbs when the panel asks for it", async () => {
+    const base = createSolBase(
+      [{ ...item, innerQty: 0, masterQty: 10 }],
+      renameFields({ netWeight: "N.W. (lbs)" })
+    );
+    await runCalculation(
+      base.context,
+      calculationOptions({ units: { ...calculationOptions().units, netWeight: "lb" } })
+    );
+
+    // 1500 g × 0.00220462 = 3.30693
+    expect(base.cell("rec1", "netWeight")).toBe(3.307);
+  });
+
+  it("adds inner and master packaging to the gross weight", () => {
+    expect(computeMasterGrossWeightG(24, 4, 150, 100, 500)).toBe(24 * 150 + 4 * 100 + 500);
+    expect(computeMasterGrossWeightG(0, 0, 150, 100, 500)).toBeNull();
+    expect(computeMasterGrossWeightG(24, 4, null, 100, 500)).toBeNull();
+  });
+});
+
+describe("header units", () => {
+  it("reads a column in the unit its header states", async () => {
+    const base = createSolBase(
+      [{ ...item, itemWeight: 0.15, innerQty: 0, masterQty: 10 }],
+      renameFields({ itemWeight: "Item Weight (kg)" })
+    );
+    const logs: string[] = [];
+    const result = await runCalculation(
+      base.context,
+      calculationOptions({ onLog: (message) => logs.push(message) })
+    );
+
+    // 0.15 kg × 10, not 0.15 g × 10.
+    expect(base.cell("rec1", "netWeight")).toBe(1.5);
+    expect(result.units.itemWeight).toBe("kg");
+    expect(logs).toContain(
+      t("calc.unitFromHeader", { fields: "Item Weight (kg)", unit: "kg", panel: "g" })
+    );
+  });
+
+  it("skips a column whose header disagrees with the rest of its group", async () => {
+    const base = createSolBase(
+      [{ ...item, innerQty: 1, masterQty: 1 }],
+      renameFields({ innerWidth: "Inner Width (cm)" })
+    );
+    const logs: string[] = [];
+    await runCalculation(
+      base.context,
+      calculationOptions({ onLog: (message) => logs.push(message) })
+    );
+
+    expect(base.cell("rec1", "innerWidth")).toBeUndefined();
+    expect(base.cell("rec1", "innerDepth")).toBe(3);
+    expect(logs).toContain(
+      t("calc.unitConflict", { field: "Inner Width (cm)", unit: "cm", expected: "in" })
+    );
+  });
+
+  it("hands the arrangement the units the run resolved", async () => {
+    const base = createSolBase(
+      [{ ...item, itemWeight: 0.15, innerQty: 0, masterQty: 10 }],
+      renameFields({ itemWeight: "Item Weight (kg)" })
+    );
+    const units: UnitSettings[] = [];
+    await runCalculation(
+      base.context,
+      calculationOptions({
+        onArrangement: (_recordId, _label, _cartons, runUnits) => units.push(runUnits),
+      })
+    );
+
+    expect(units.map((entry) => entry.itemWeight)).toEqual(["kg"]);
+  });
+});
+
+describe("record scope", () => {
+  it("calculates only the selected records unless forced", async () => {
+    const base = createSolBase([
+      { ...item, innerQty: 0, masterQty: 2 },
+      { ...item, innerQty: 0, masterQty: 2 },
+    ]);
+    base.view.selected = ["rec2"];
+    const result = await runCalculation(base.context, calculationOptions({ forceAll: false }));
+
+    expect(result.total).toBe(1);
+    expect(base.cell("rec1", "masterWidth")).toBeUndefined();
+    expect(base.cell("rec2", "masterWidth")).not.toBeUndefined();
+  });
+
+  it("reports one event per record after the write", async () => {
+    const base = createSolBase([
+      { ...item, innerQty: 6, masterQty: 24 },
+      { ...item, innerQty: 4, masterQty: 10 },
+      { innerQty: 2, masterQty: 4 },
+    ]);
+    const events: RecordEvent[] = [];
+    await runCalculation(base.context, calculationOptions({ onEvent: (e) => events.push(e) }));
+
+    expect(events.map(({ category, severity }) => [category, severity])).toEqual([
+      ["updated", "info"],
+      ["skipped", "warning"],
+      ["skipped", "warning"],
+    ]);
+    expect(events[0].itemCode).toBe("SOL-1");
+    expect(events[0].changes).toContainEqual(
+      expect.objectContaining({ key: "netWeight", before: null, after: 3.6 })
+    );
+
+    events.length = 0;
+    await runCalculation(base.context, calculationOptions({ onEvent: (e) => events.push(e) }));
+    expect(events[0].category).toBe("unchanged");
+  });
+
+  it("reports records whose write failed as errors", async () => {
+    const base = createSolBase([{ ...item, innerQty: 6, masterQty: 24 }]);
+    base.table.setRecords = async () => {
+      throw new Error("offline");
+    };
+    const events: RecordEvent[] = [];
+    await runCalculation(base.context, calculationOptions({ onEvent: (e) => events.push(e) }));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ recordId: "rec1", category: "error", severity: "error" });
+  });
+
+  it("leaves the table untouched in a dry run", async () => {
+    const base = createSolBase([{ ...item, innerQty: 6, masterQty: 24 }]);
+    const result = await runCalculation(base.context, calculationOptions({ dryRun: true }));
+
+    expect(result.plans[0].changes.length).toBeGreaterThan(0);
+    expect(base.table.writes).toHaveLength(0);
+  });
+
+  it("writes nothing when the undo snapshot cannot be stored", async () => {
+    const base = createSolBase([{ ...item, innerQty: 6, masterQty: 24 }]);
+    setPluginStorage({ getData: async () => undefined, setData: async () => false });
+
+    await expect(runCalculation(base.context, calculationOptions())).rejects.toThrow(
+      t("calc.snapshotFailed")
+    );
+    expect(base.table.writes).toHaveLength(0);
+  });
+});
@@ -1,49 +1,274 @@
-import { bitable, ToastType } from "@lark-base-open/js-sdk";
 import type { PluginContext } from "./context";
-import type { FieldIds } from "../config/fields";
-import { computeBestArrangement, type ArrangementResult } from "./arrangement";
-import { convertBufferToInches, extractNumber, round } from "../utils/numbers";
+import { OPTIONAL_FIELD_KEYS, type FieldIds } from "../config/fields";
+import {
+  formatOrientation,
+  isRotated,
+  parseOrientationMode,
+  searchArrangements,
+  type ArrangementConstraints,
+  type ArrangementInput,
+  type ArrangementRejection,
+  type ArrangementResult,
+  type ConstraintKey,
+  type OrientationMode,
+} from "./arrangement";
+import {
+  resolveObjectives,
+  type ArrangementObjective,
+  type ObjectiveId,
+} from "./objectives";
+import { computeContainerLoad, type ContainerSpec } from "./container";
+import { computeBillableWeight, type DimProfile } from "./dimWeight";
+import { loadHeaderUnits } from "./headerUnits";
+import { saveRunSnapshot } from "./history";
+import {
+  BUILT_IN_MATERIALS,
+  computeTareGrams,
+  findPackagingMaterial,
+  getWallInches,
+  type PackagingMaterial,
+} from "./packaging";
+import { computePalletPlan, type PalletOptions, type PalletPlan } from "./pallet";
+import type { Notifier, RecordSnapshot, RecordUpdate } from "./adapter";
+import { fetchRecords, writeRecords } from "./records";
+import { formatNumber, t, type MessageKey } from "../i18n";
+import {
+  convertBufferToInches,
+  convertCmToInches,
+  convertCubicInchesToCbm,
+  convertGramsToWeight,
+  convertInchesToLength,
+  convertLengthToInches,
+  convertWeightToGrams,
+  extractNumber,
+  formatUnit,
+  round,
+  type LengthUnit,
+  type WeightUnit,
+} from "../utils/numbers";
 import { logError } from "../utils/logger";
 
 export type BufferUnit = "inch" | "cm";
-export type InnerMaterial = "Box" | "Poly Bag";
-
-const INNER_BOX_PACKAGING_WEIGHT_G = 100;
-const GRAM_TO_POUND = 0.00220462;
 const LB_TO_KG = 0.4536;
 const INNER_FIELD_KEYS = [
   "innerWidth",
   "innerDepth",
   "innerHeight",
   "innerWeight",
+  "innerInternalWidth",
+  "innerInternalDepth",
+  "innerInternalHeight",
 ] as const;
 type InnerFieldKey = (typeof INNER_FIELD_KEYS)[number];
 
+/**
+ * How numbers in the table are to be read and written. Item values are
+ * inputs; carton values are outputs (existing inner sizes are also read back
+ * when the master step reuses them).
+ */
+export interface UnitSettings {
+  itemDimension: LengthUnit;
+  itemWeight: WeightUnit;
+  cartonDimension: "inch" | "cm";
+  innerWeight: "lb" | "kg";
+  netWeight: "kg" | "lb";
+}
+
+export const DEFAULT_UNITS: UnitSettings = {
+  itemDimension: "inch",
+  itemWeight: "g",
+  cartonDimension: "inch",
+  innerWeight: "lb",
+  netWeight: "kg",
+};
+
 export interface CalculationOptions {
   forceAll: boolean;
   innerBuffer: number;
   innerBufferUnit: BufferUnit;
   masterBuffer: number;
   masterBufferUnit: BufferUnit;
-  innerMaterial: InnerMaterial;
+  /** Packaging of each inner carton, from the packaging catalogue. */
+  innerMaterial: PackagingMaterial;
+  /**
+   * Catalogue a record's `Inner Material` cell is looked up in by name;
+   * defaults to the built-in materials.
+   */
+  materials?: PackagingMaterial[];
+  /** Packaging of the master carton; `null` leaves its tare out. */
+  masterMaterial: PackagingMaterial | null;
+  units: UnitSettings;
+  /**
+   * Default item rotation; a record's `Orientation` cell overrides it, as its
+   * `Inner Material`, `Inner Buffer` and `Master Buffer` cells override the
+   * values above.
+   */
+  orientationMode: OrientationMode;
+  /** Limits the master carton must meet; lengths in inches. */
+  masterConstraints: ArrangementConstraints;
+  /** How candidates are ranked; pallet fit uses the selected pallet's footprint. */
+  objective: ObjectiveId;
+  /** Container used for the loading summary; `null` skips the container step. */
+  container: ContainerSpec | null;
+  /** Pallet footprint and caps for the pallet build; `null` skips the pallet step. */
+  pallet: PalletOptions | null;
+  /** Carrier DIM divisor used for billable weight; `null` skips the step. */
+  dimProfile: DimProfile | null;
+  /** Compute the plans and log them without writing anything to the table. */
+  dryRun?: boolean;
+  /** Calculate exactly these records instead of the selection or the view. */
+  recordIds?: string[];
+  /** Skip the Bitable toast for a zero Master Qty (the audit reports it itself). */
+  quiet?: boolean;
   onLog: (message: string) => void;
+  onPalletPlan?: (label: string, plan: PalletPlan) => void;
+  /**
+   * Receives the chosen cartons of every record that got a master carton, with
+   * the units the run read the record in.
+   */
+  onArrangement?: (
+    recordId: string,
+    label: string,
+    cartons: RecordArrangements,
+    units: UnitSettings
+  ) => void;
+  /** Receives the outcome of every fetched record once the run has written its plans. */
+  onEvent?: (event: RecordEvent) => void;
+}
+
+export interface RecordArrangements {
+  inner: ArrangementResult | null;
+  master: ArrangementResult;
+}
+
+export interface FieldChange {
+  key: keyof FieldIds;
+  fieldId: string;
+  /** Raw cell value currently stored in the table. */
+  before: unknown;
+  /** Numbers for the calculated fields; text for status fields such as Pack Check. */
+  after: number | string | null;
+}
+
+export interface RecordPlan {
+  recordId: string;
+  label: string;
+  /** Only fields whose value actually changes. */
+  changes: FieldChange[];
+}
+
+export type RecordStatus = "ok" | "skipped" | "failed";
+
+/** Carton size in the carton dimension unit and its item layout. */
+export interface CartonReport {
+  width: number;
+  depth: number;
+  height: number;
+  counts: [number, number, number];
+}
+
+/**
+ * What a run did with one record, for the exported packing spec. Inputs are
+ * in the item units, results in the panel's carton and weight units.
+ */
+export interface RecordReport {
+  recordId: string;
+  label: string;
+  itemCode: string | null;
+  status: RecordStatus;
+  /** Why the record was skipped or failed; null when it went through. */
+  reason: string | null;
+  itemWidth: number | null;
+  itemDepth: number | null;
+  itemHeight: number | null;
+  itemWeight: number | null;
+  innerQty: number | null;
+  masterQty: number | null;
+  /** Buffers actually applied, in the carton dimension unit. */
+  innerBuffer: number;
+  masterBuffer: number;
+  innerMaterial: string;
+  masterMaterial: string | null;
+  inner: CartonReport | null;
+  innerWeight: number | null;
+  innersPerMaster: number | null;
+  master: CartonReport | null;
+  netWeight: number | null;
+  grossWeightKg: number | null;
+  masterCbm: number | null;
+}
+
+export type RecordEventCategory = "updated" | "unchanged" | "skipped" | "error";
+
+export type RecordEventSeverity = "info" | "warning" | "error";
+
+/**
+ * What a run did with one record, for the filterable result list. `changes`
+ * holds the cells written (or, in a preview, about to be written) with their
+ * old and new values.
+ */
+export interface RecordEvent {
+  recordId: string;
+  label: string;
+  itemCode: string | null;
+  severity: RecordEventSeverity;
+  category: RecordEventCategory;
+  message: string;
+  changes: FieldChange[];
+}
+
+export interface CalculationResult {
+  total: number;
+  processed: number;
+  plans: RecordPlan[];
+  /** One entry per fetched record, failed ones included. */
+  reports: RecordReport[];
+  /** The records as fetched before the run, so callers need not read them again. */
+  records: RecordSnapshot[];
+  /** Units the run read and wrote: the panel's, corrected by the column headers. */
+  units: UnitSettings;
+  /** Columns the run used; a column whose header contradicts `units` is left out. */
+  fieldIds: FieldIds;
 }
 
 function isPositive(value: number | null): value is number {
   return value != null && Number.isFinite(value) && value > 0;
 }
 
-function computeInnerGrossWeightLb(
+/** Materials that wrap the product tightly (poly bags) get no inner buffer. */
+export function resolveInnerBufferInches(
+  buffer: number,
+  unit: BufferUnit,
+  innerMaterial: PackagingMaterial
+): number {
+  return convertBufferToInches(innerMaterial.fitsProduct ? 0 : buffer, unit);
+}
+
+function computeInnerGrossWeightG(
   innerQty: number,
   itemWeight: number | null,
-  innerMaterial: InnerMaterial
+  innerTareGrams: number
 ): number | null {
   if (innerQty <= 0) return null;
   if (!isPositive(itemWeight)) return null;
-  const packagingWeight =
-    innerMaterial === "Poly Bag" ? 0 : INNER_BOX_PACKAGING_WEIGHT_G;
-  const totalGrams = innerQty * (itemWeight as number) + packagingWeight;
-  return totalGrams * GRAM_TO_POUND;
+  return innerQty * (itemWeight as number) + innerTareGrams;
+}
+
+/**
+ * Master gross weight in grams: the items themselves, the packaging of every
+ * inner carton packed inside, and the empty master carton.
+ */
+export function computeMasterGrossWeightG(
+  masterQty: number,
+  innersPerMaster: number,
+  itemWeight: number | null,
+  innerTareGrams: number,
+  masterTareGrams: number
+): number | null {
+  if (masterQty <= 0) return null;
+  if (!isPositive(itemWeight)) return null;
+  const innerPackaging = innersPerMaster > 0 ? innersPerMaster * innerTareGrams : 0;
+  return masterQty * (itemWeight as number) + innerPackaging + masterTareGrams;
 }
 
 function extractTextValue(cellValue: unknown): string | null {
@@ -75,7 +300,7 @@ function extractTextValue(cellValue: unknown): string | null {
   return null;
 }
 
-function formatRecordLabel(
+export function formatRecordLabel(
   recordId: string,
   index: number,
   itemCode: string | null
@@ -85,445 +310,1094 @@ function formatRecordLabel(
   return `#${index + 1} (${display})`;
 }
 
+function describeArrangement(arrangement: ArrangementResult): string {
+  return t("calc.arrangement", {
+    counts: arrangement.counts.join("×"),
+    orientation: formatOrientation(arrangement.orientation),
+    rotated: isRotated(arrangement.orientation) ? t("calc.rotated") : "",
+  });
+}
+
+const CONSTRAINT_LABELS = {
+  maxGrossWeightKg: "constraint.maxGrossWeightKg",
+  maxSide: "constraint.maxSide",
+  maxGirth: "constraint.maxGirth",
+  maxLayers: "constraint.maxLayers",
+} as const satisfies Record<ConstraintKey, MessageKey>;
+
+/** Distinct rejected cartons listed per record before the rest are summarised. */
+const MAX_LOGGED_REJECTIONS = 10;
+
+/** Ranked candidates logged per carton so buyers can pick an alternative. */
+const MAX_LOGGED_CANDIDATES = 3;
+
+export function readTextCell(cellValue: unknown): string | null {
+  if (Array.isArray(cellValue) && cellValue.length) {
+    const first = cellValue[0];
+    if (typeof first === "object" && first) {
+      const candidate =
+        typeof (first as { text?: unknown }).text === "string"
+          ? (first as { text?: unknown }).text
+          : typeof (first as { text?: unknown }).text === "number" && Number.isFinite((first as { text?: unknown }).text)
+            ? String((first as { text?: unknown }).text)
+            : typeof (first as { value?: unknown }).value === "string"
+              ? (first as { value?: unknown }).value
+              : typeof (first as { value?: unknown }).value === "number" && Number.isFinite((first as { value?: unknown }).value)
+                ? String((first as { value?: unknown }).value)
+                : null;
+      if (candidate != null) {
+        return extractTextValue(candidate);
+      }
+    }
+    if (typeof first === "string" || (typeof first === "number" && Number.isFinite(first))) {
+      return extractTextValue(first);
+    }
+  }
+  return extractTextValue(cellValue);
+}
+
+function isSameCellValue(before: unknown, after: number | null): boolean {
+  const current = extractNumber(before);
+  if (after == null) return current == null;
+  return current != null && Math.abs(current - after) < 1e-9;
+}
+
+function createRecordReport(
+  recordId: string,
+  label: string,
+  settings: ResolvedSettings
+): RecordReport {
+  const toCartonLength = (inches: number) =>
+    round(convertInchesToLength(inches, settings.units.cartonDimension), 3);
+  return {
+    recordId,
+    label,
+    itemCode: null,
+    status: "ok",
+    reason: null,
+    itemWidth: null,
+    itemDepth: null,
+    itemHeight: null,
+    itemWeight: null,
+    innerQty: null,
+    masterQty: null,
+    innerBuffer: toCartonLength(settings.innerBufferInches),
+    masterBuffer: toCartonLength(settings.masterBufferInches),
+    innerMaterial: settings.innerMaterial.name,
+    masterMaterial: settings.masterMaterial?.name ?? null,
+    inner: null,
+    innerWeight: null,
+    innersPerMaster: null,
+    master: null,
+    netWeight: null,
+    grossWeightKg: null,
+    masterCbm: null,
+  };
+}
+
 function normaliseIds(list: (string | undefined)[]): string[] {
   return list.filter((id): id is string => Boolean(id));
 }
 
-export async function runCalculation(
-  context: PluginContext,
-  options: CalculationOptions
-): Promise<void> {
-  const { table, view, fieldIds } = context;
-  const {
-    forceAll,
-      innerBuffer,
-      innerBufferUnit,
-    masterBuffer,
-    masterBufferUnit,
-    innerMaterial,
-    onLog,
-  } = options;
+interface ResolvedSettings {
+  /** Panel buffers as entered, for records whose buffer cells are empty. */
+  innerBuffer: number;
+  innerBufferUnit: BufferUnit;
+  masterBuffer: number;
+  masterBufferUnit: BufferUnit;
+  materials: PackagingMaterial[];
+  innerBufferInches: number;
+  masterBufferInches: number;
+  innerWallInches: number;
+  masterWallInches: number;
+  innerMaterial: PackagingMaterial;
+  masterMaterial: PackagingMaterial | null;
+  units: UnitSettings;
+  orientationMode: OrientationMode;
+  masterConstraints: ArrangementConstraints;
+  innerObjective: ArrangementObjective;
+  masterObjective: ArrangementObjective;
+  container: ContainerSpec | null;
+  pallet: PalletOptions | null;
+  dimProfile: DimProfile | null;
+}
 
-  const effectiveInnerBuffer =
-    innerMaterial === "Poly Bag" ? 0 : innerBuffer;
-  const innerBufferInches = convertBufferToInches(
-    effectiveInnerBuffer,
-    innerBufferUnit
-  );
-  const masterBufferInches = convertBufferToInches(
-    masterBuffer,
-    masterBufferUnit
-  );
+interface PlannedRecord {
+  plan: RecordPlan;
+  report: RecordReport;
+}
 
-  const selectedIds = normaliseIds(await view.getSelectedRecordIdList());
-  let recordIds: string[];
+/** Panel values a record's packaging columns can override. */
+export type PackagingDefaults = Pick<
+  CalculationOptions,
+  | "innerMaterial"
+  | "materials"
+  | "innerBuffer"
+  | "innerBufferUnit"
+  | "masterBuffer"
+  | "masterBufferUnit"
+>;
 
-  if (forceAll) {
-    recordIds = normaliseIds(await view.getVisibleRecordIdList());
-  } else if (selectedIds.length > 0) {
-    recordIds = selectedIds;
-  } else {
-    recordIds = normaliseIds(await view.getVisibleRecordIdList());
+export interface RecordPackaging {
+  innerMaterial: PackagingMaterial;
+  innerBufferInches: number;
+  masterBufferInches: number;
+}
+
+/**
+ * Inner packaging and buffers of one record: its `Inner Material`, `Inner
+ * Buffer` and `Master Buffer` cells override the panel defaults. When any of
+ * these columns exists, the effective values and their source are logged.
+ */
+export function resolveRecordPackaging(
+  fields: Record<string, unknown>,
+  fieldIds: FieldIds,
+  defaults: PackagingDefaults,
+  label: string,
+  onLog: (message: string) => void
+): RecordPackaging {
+  const materials = defaults.materials ?? BUILT_IN_MATERIALS;
+  let innerMaterial = defaults.innerMaterial;
+  let materialFromColumn = false;
+  const materialText = fieldIds.innerMaterial
+    ? readTextCell(fields[fieldIds.innerMaterial])?.trim()
+    : null;
+  if (materialText) {
+    const match = findPackagingMaterial(materials, materialText);
+    if (match) {
+      innerMaterial = match;
+      materialFromColumn = true;
+    } else {
+      onLog(t("calc.materialUnknown", { label, value: materialText }));
+    }
   }
 
-  if (!recordIds.length) {
-    onLog("当前视图没有记录可以计算。");
-    return;
+  const readBufferCell = (key: "innerBuffer" | "masterBuffer"): number | null => {
+    const value = fieldIds[key] ? extractNumber(fields[fieldIds[key]]) : null;
+    if (value == null) return null;
+    if (!Number.isFinite(value) || value < 0) {
+      onLog(t("calc.bufferInvalid", { label, field: OPTIONAL_FIELD_KEYS[key].name, value }));
+      return null;
+    }
+    return value;
+  };
+  const innerBufferCell = readBufferCell("innerBuffer");
+  const masterBufferCell = readBufferCell("masterBuffer");
+  const innerBuffer = innerMaterial.fitsProduct ? 0 : innerBufferCell ?? defaults.innerBuffer;
+  const masterBuffer = masterBufferCell ?? defaults.masterBuffer;
+
+  if (fieldIds.innerMaterial || fieldIds.innerBuffer || fieldIds.masterBuffer) {
+    const source = (fromColumn: boolean) =>
+      t(fromColumn ? "calc.source.column" : "calc.source.panel");
+    onLog(
+      t("calc.parameters", {
+        label,
+        material: innerMaterial.name,
+        materialSource: source(materialFromColumn),
+        innerBuffer: formatNumber(innerBuffer),
+        innerBufferUnit: defaults.innerBufferUnit,
+        innerBufferSource: innerMaterial.fitsProduct
+          ? t("calc.source.fitsProduct")
+          : source(innerBufferCell != null),
+        masterBuffer: formatNumber(masterBuffer),
+        masterBufferUnit: defaults.masterBufferUnit,
+        masterBufferSource: source(masterBufferCell != null),
+      })
+    );
   }
 
-  onLog(`即将处理 ${recordIds.length} 条记录。`);
+  return {
+    innerMaterial,
+    innerBufferInches: resolveInnerBufferInches(
+      innerBuffer,
+      defaults.innerBufferUnit,
+      innerMaterial
+    ),
+    masterBufferInches: convertBufferToInches(masterBuffer, defaults.masterBufferUnit),
+  };
+}
 
-  let processed = 0;
-  for (const [index, recordId] of recordIds.entries()) {
-    let label = formatRecordLabel(recordId, index, null);
-    try {
-      const record = await table.getRecordById(recordId);
-      const fetchValue = (key: keyof FieldIds): number | null => {
-        const fieldId = fieldIds[key];
-        if (!fieldId) return null;
-        const cellValue = record.fields[fieldId];
-        return extractNumber(cellValue);
-      };
-
-      const fetchText = (key: keyof FieldIds): string | null => {
-        const fieldId = fieldIds[key];
-        if (!fieldId) return null;
-        const cellValue = record.fields[fieldId];
-        if (Array.isArray(cellValue) && cellValue.length) {
-          const first = cellValue[0];
-          if (typeof first === "object" && first) {
-            const candidate =
-              typeof (first as { text?: unknown }).text === "string"
-                ? (first as { text?: unknown }).text
-                : typeof (first as { text?: unknown }).text === "number" && Number.isFinite((first as { text?: unknown }).text)
-                  ? String((first as { text?: unknown }).text)
-                  : typeof (first as { value?: unknown }).value === "string"
-                    ? (first as { value?: unknown }).value
-                    : typeof (first as { value?: unknown }).value === "number" && Number.isFinite((first as { value?: unknown }).value)
-                      ? String((first as { value?: unknown }).value)
-                      : null;
-            if (candidate != null) {
-              return extractTextValue(candidate);
-            }
-          }
-          if (typeof first === "string" || (typeof first === "number" && Number.isFinite(first))) {
-            return extractTextValue(first);
-          }
-        }
-        return extractTextValue(cellValue);
-      };
-
-      const clearInnerValues = async () => {
-        const clears: Promise<unknown>[] = [];
-        for (const key of INNER_FIELD_KEYS) {
-          const fieldId = fieldIds[key];
-          if (fieldId) {
-            clears.push(table.setCellValue(fieldId, recordId, null));
-          }
-        }
-        if (clears.length) {
-          await Promise.all(clears);
-        }
-      };
-
-      const rawItemCode = fieldIds.itemCode ? fetchText("itemCode") : null;
-      const itemCode =
-        rawItemCode && rawItemCode.trim().length ? rawItemCode.trim() : null;
-      label = formatRecordLabel(recordId, index, itemCode);
-
-      const itemWidth = fetchValue("itemWidth");
-      const itemDepth = fetchValue("itemDepth");
-      const itemHeight = fetchValue("itemHeight");
-      const itemWeight = fetchValue("itemWeight");
-      const innerQtyRaw = fetchValue("innerQty");
-      const masterQtyRaw = fetchValue("masterQty");
-
-      if (
-        !isPositive(itemWidth) ||
-        !isPositive(itemDepth) ||
-        !isPositive(itemHeight)
-      ) {
-        onLog(`${label} 未填写完整的产品尺寸，已跳过。`);
-        processed += 1;
-        continue;
-      }
+/**
+ * Works out every field change for one record without touching the table.
+ * Skipped records still return a plan: changes queued before the skip (for
+ * example cleared inner fields) remain part of it.
+ */
+async function planRecord(
+  record: RecordSnapshot,
+  index: number,
+  fieldIds: FieldIds,
+  settings: ResolvedSettings,
+  options: Pick<CalculationOptions, "onLog" | "onPalletPlan" | "onArrangement" | "quiet"> & {
+    notifier: Notifier;
+  }
+): Promise<PlannedRecord> {
+  const { recordId } = record;
+  const { onLog, onPalletPlan, onArrangement, quiet = false, notifier } = options;
+  const {
+    masterWallInches,
+    units,
+    orientationMode: defaultOrientationMode,
+    masterConstraints,
+    innerObjective,
+    masterObjective,
+    masterMaterial,
+    container,
+    pallet,
+    dimProfile,
+  } = settings;
 
-      if (innerQtyRaw != null && !Number.isInteger(innerQtyRaw)) {
-        onLog(`${label} Inner Qty 需为整数，已跳过。`);
-        processed += 1;
-        continue;
-      }
+  const fetchValue = (key: keyof FieldIds): number | null => {
+    const fieldId = fieldIds[key];
+    if (!fieldId) return null;
+    return extractNumber(record.fields[fieldId]);
+  };
 
-      if (masterQtyRaw != null && !Number.isInteger(masterQtyRaw)) {
-        onLog(`${label} Master Qty 需为整数，已跳过。`);
-        processed += 1;
-        continue;
-      }
+  const fetchLength = (key: keyof FieldIds, unit: LengthUnit): number | null => {
+    const value = fetchValue(key);
+    return value == null ? null : convertLengthToInches(value, unit);
+  };
 
-      const innerQty = innerQtyRaw ?? 0;
-      const masterQty = masterQtyRaw ?? 0;
-
-      const existingInnerWidth = fetchValue("innerWidth");
-      const existingInnerDepth = fetchValue("innerDepth");
-      const existingInnerHeight = fetchValue("innerHeight");
-      const existingInnerWeightLb = fetchValue("innerWeight");
-
-      let innerArrangement: ArrangementResult | null = null;
-      let masterArrangement: ArrangementResult | null = null;
-      let netWeightKg: number | null = null;
-
-      const innerUpdates: Promise<unknown>[] = [];
-
-      if (innerQty > 0) {
-        const arrangement = computeBestArrangement(
-          innerQty,
-          {
-            width: itemWidth as number,
-            depth: itemDepth as number,
-            height: itemHeight as number,
-          },
-          innerBufferInches
-        );
-
-        if (!arrangement) {
-          onLog(`${label} 未找到适合的中盒排列方式。`);
-        } else {
-          innerArrangement = arrangement;
-          if (fieldIds.innerWidth) {
-            innerUpdates.push(
-              table.setCellValue(
-                fieldIds.innerWidth,
-                recordId,
-                round(arrangement.width, 3)
-              )
-            );
-          }
-          if (fieldIds.innerDepth) {
-            innerUpdates.push(
-              table.setCellValue(
-                fieldIds.innerDepth,
-                recordId,
-                round(arrangement.depth, 3)
-              )
-            );
-          }
-          if (fieldIds.innerHeight) {
-            innerUpdates.push(
-              table.setCellValue(
-                fieldIds.innerHeight,
-                recordId,
-                round(arrangement.height, 3)
-              )
-            );
-          }
-        }
+  const fetchWeight = (key: keyof FieldIds, unit: WeightUnit): number | null => {
+    const value = fetchValue(key);
+    return value == null ? null : convertWeightToGrams(value, unit);
+  };
 
-        const computedInnerWeight = computeInnerGrossWeightLb(
-          innerQty,
-          itemWeight,
-          innerMaterial
-        );
-        if (computedInnerWeight != null) {
-          if (fieldIds.innerWeight) {
-            const shouldUpdate =
-              !isPositive(existingInnerWeightLb) ||
-              Math.abs((existingInnerWeightLb ?? 0) - computedInnerWeight) >
-                0.001;
-            if (shouldUpdate) {
-              innerUpdates.push(
-                table.setCellValue(
-                  fieldIds.innerWeight,
-                  recordId,
-                  round(computedInnerWeight, 3)
-                )
-              );
-              onLog(
-                `${label} 自动补全中盒毛重：${computedInnerWeight.toFixed(
-                  3
-                )} lbs。`
-              );
-            }
-          }
-        } else if (!isPositive(existingInnerWeightLb)) {
-          onLog(`${label} 缺少产品重量，无法推算中盒毛重。`);
-        }
-      } else {
-        onLog(`${label} Inner Qty 为 0 或空，视为无中盒。`);
-        await clearInnerValues();
-      }
+  const toCartonLength = (inches: number) =>
+    round(convertInchesToLength(inches, units.cartonDimension), 3);
+  /** Carton length for the log, e.g. "12.50". */
+  const formatLength = (inches: number) => formatNumber(toCartonLength(inches), 2);
+  const cartonUnit = formatUnit(units.cartonDimension);
+  const sizeParams = ({ width, depth, height }: ArrangementInput) => ({
+    width: formatLength(width),
+    depth: formatLength(depth),
+    height: formatLength(height),
+  });
 
-      if (innerUpdates.length) {
-        await Promise.all(innerUpdates);
-      }
+  const describeInternal = (arrangement: ArrangementResult, wallInches: number) => {
+    if (wallInches <= 0) return "";
+    return t("calc.internalSize", sizeParams(arrangement.internal));
+  };
 
-      if (innerArrangement) {
-        onLog(
-          `${label} 中盒尺寸更新：${innerArrangement.width.toFixed(
-            2
-          )} × ${innerArrangement.depth.toFixed(
-            2
-          )} × ${innerArrangement.height.toFixed(2)} (in)。`
-        );
-      }
+  const formatScore = (objective: ArrangementObjective, score: number): string => {
+    switch (objective.id) {
+      case "surface":
+        return t("calc.score.surface", { value: formatNumber(score, 2) });
+      case "cubic":
+        return t("calc.score.cubic", { value: formatNumber(score, 2) });
+      case "height":
+        return t("calc.score.height", { value: formatLength(score), unit: cartonUnit });
+      case "palletFit":
+        return Number.isFinite(score)
+          ? t("calc.score.palletFit", { percent: formatNumber((1 - score) * 100, 1) })
+          : t("calc.score.palletMiss");
+      default:
+        return `${formatNumber(score, 3)} ft³`;
+    }
+  };
 
-      if (masterQty <= 0) {
-        onLog(`${label} Master Qty 为 0 或空，已跳过外箱计算。`);
-        if (masterQty === 0) {
-          try {
-            await bitable.ui.showToast({
-              toastType: ToastType.warning,
-              message:
-                "Case pack is zero, pls input the master qty as case pack!",
-            });
-          } catch (toastError) {
-            logError("toast", toastError);
-          }
-        }
-        processed += 1;
-        continue;
-      }
+  const logTopCandidates = (
+    heading: "calc.candidates.inner" | "calc.candidates.master",
+    objective: ArrangementObjective,
+    ranked: ArrangementResult[]
+  ) => {
+    onLog(t(heading, { label, objective: objective.label }));
+    ranked.slice(0, MAX_LOGGED_CANDIDATES).forEach((candidate, position) => {
+      onLog(
+        t("calc.candidate", {
+          position: position + 1,
+          ...sizeParams(candidate),
+          counts: candidate.counts.join("×"),
+          score: formatScore(objective, objective.score(candidate)),
+        })
+      );
+    });
+  };
+
+  const logRejections = (rejections: ArrangementRejection[]) => {
+    // Rotations of the same box fail for the same reasons; list each box once.
+    const seen = new Set<string>();
+    const distinct = rejections.filter(({ candidate }) => {
+      const key = [candidate.width, candidate.depth, candidate.height]
+        .map((value) => round(value, 3))
+        .sort((a, b) => a - b)
+        .join("x");
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    onLog(t("calc.rejections", { label, count: distinct.length }));
+    for (const { candidate, violations } of distinct.slice(0, MAX_LOGGED_REJECTIONS)) {
+      const reasons = violations
+        .map(({ constraint, actual, limit }) => {
+          const format = (value: number) =>
+            constraint === "maxGrossWeightKg"
+              ? `${formatNumber(value, 2)} kg`
+              : constraint === "maxLayers"
+              ? formatNumber(value)
+              : `${formatLength(value)} ${cartonUnit}`;
+          return t("calc.rejectionReason", {
+            constraint: t(CONSTRAINT_LABELS[constraint]),
+            actual: format(actual),
+            limit: format(limit),
+          });
+        })
+        .join(t("list.separator"));
+      onLog(
+        t("calc.rejection", {
+          ...sizeParams(candidate),
+          counts: candidate.counts.join("×"),
+          reasons,
+        })
+      );
+    }
+    if (distinct.length > MAX_LOGGED_REJECTIONS) {
+      onLog(t("calc.rejectionsMore", { count: distinct.length - MAX_LOGGED_REJECTIONS }));
+    }
+  };
+
+  const fetchText = (key: keyof FieldIds): string | null => {
+    const fieldId = fieldIds[key];
+    if (!fieldId) return null;
+    return readTextCell(record.fields[fieldId]);
+  };
 
-      const divisor = innerQty > 0 ? innerQty : 1;
-      const ratio = masterQty / divisor;
-      if (!Number.isFinite(ratio) || ratio <= 0) {
-        onLog(
-          `${label} Master Qty (${masterQty}) 与 Inner Qty (${innerQty}) 的比例无效，已跳过。`
-        );
-        processed += 1;
-        continue;
+  const rawItemCode = fieldIds.itemCode ? fetchText("itemCode") : null;
+  const itemCode =
+    rawItemCode && rawItemCode.trim().length ? rawItemCode.trim() : null;
+  const label = formatRecordLabel(recordId, index, itemCode);
+
+  let orientationMode = defaultOrientationMode;
+  if (fieldIds.orientation) {
+    const orientationCell = record.fields[fieldIds.orientation];
+    if (typeof orientationCell === "boolean") {
+      if (orientationCell) orientationMode = "upright";
+    } else {
+      const orientationText = readTextCell(orientationCell);
+      const parsed = parseOrientationMode(orientationText);
+      if (parsed) {
+        orientationMode = parsed;
+      } else if (orientationText) {
+        onLog(t("calc.orientationUnknown", { label, value: orientationText }));
       }
+    }
+  }
 
-      const masterUpdates: Promise<unknown>[] = [];
+  const { innerMaterial, innerBufferInches, masterBufferInches } = resolveRecordPackaging(
+    record.fields,
+    fieldIds,
+    settings,
+    label,
+    onLog
+  );
+  const innerWallInches = getWallInches(innerMaterial);
 
-      if (innerQty > 0) {
-        const innersPerMaster = ratio;
-        if (!Number.isInteger(innersPerMaster)) {
-          onLog(
-            `${label} Master Qty (${masterQty}) 无法被 Inner Qty (${innerQty}) 整除，外箱计算已跳过。`
-          );
-          processed += 1;
-          continue;
-        }
+  const plan: RecordPlan = { recordId, label, changes: [] };
+  const report = createRecordReport(recordId, label, {
+    ...settings,
+    innerMaterial,
+    innerBufferInches,
+    masterBufferInches,
+  });
+  report.itemCode = itemCode;
 
-        const baseWidth = [
-          innerArrangement?.width,
-          existingInnerWidth,
-          itemWidth,
-        ].find(isPositive);
-        const baseDepth = [
-          innerArrangement?.depth,
-          existingInnerDepth,
-          itemDepth,
-        ].find(isPositive);
-        const baseHeight = [
-          innerArrangement?.height,
-          existingInnerHeight,
-          itemHeight,
-        ].find(isPositive);
-
-        if (!baseWidth || !baseDepth || !baseHeight) {
-          onLog(`${label} 缺少可用的中盒尺寸，无法计算外箱。`);
-          processed += 1;
-          continue;
-        }
+  const toCartonReport = (arrangement: ArrangementResult): CartonReport => ({
+    width: toCartonLength(arrangement.width),
+    depth: toCartonLength(arrangement.depth),
+    height: toCartonLength(arrangement.height),
+    counts: arrangement.counts,
+  });
 
-        const arrangement = computeBestArrangement(
-          innersPerMaster,
-          {
-            width: baseWidth,
-            depth: baseDepth,
-            height: baseHeight,
-          },
-          masterBufferInches
-        );
-
-        if (!arrangement) {
-          onLog(`${label} 未找到适合的外箱排列方式。`);
-          processed += 1;
-          continue;
-        }
+  const markSkipped = (reason: string): PlannedRecord => {
+    report.status = "skipped";
+    report.reason = reason;
+    return { plan, report };
+  };
 
-        masterArrangement = arrangement;
-        if (fieldIds.masterWidth) {
-          masterUpdates.push(
-            table.setCellValue(
-              fieldIds.masterWidth,
-              recordId,
-              round(arrangement.width, 3)
-            )
-          );
-        }
-        if (fieldIds.masterDepth) {
-          masterUpdates.push(
-            table.setCellValue(
-              fieldIds.masterDepth,
-              recordId,
-              round(arrangement.depth, 3)
-            )
-          );
-        }
-        if (fieldIds.masterHeight) {
-          masterUpdates.push(
-            table.setCellValue(
-              fieldIds.masterHeight,
-              recordId,
-              round(arrangement.height, 3)
-            )
-          );
-        }
-      } else {
-        const arrangement = computeBestArrangement(
-          masterQty,
-          {
-            width: itemWidth as number,
-            depth: itemDepth as number,
-            height: itemHeight as number,
-          },
-          masterBufferInches
-        );
-
-        if (!arrangement) {
-          onLog(`${label} 未找到适合的外箱排列方式。`);
-          processed += 1;
-          continue;
-        }
+  const skip = (reason: string): PlannedRecord => {
+    onLog(`${label} ${reason}`);
+    return markSkipped(reason);
+  };
 
-        masterArrangement = arrangement;
-        if (fieldIds.masterWidth) {
-          masterUpdates.push(
-            table.setCellValue(
-              fieldIds.masterWidth,
-              recordId,
-              round(arrangement.width, 3)
-            )
-          );
-        }
-        if (fieldIds.masterDepth) {
-          masterUpdates.push(
-            table.setCellValue(
-              fieldIds.masterDepth,
-              recordId,
-              round(arrangement.depth, 3)
-            )
-          );
-        }
-        if (fieldIds.masterHeight) {
-          masterUpdates.push(
-            table.setCellValue(
-              fieldIds.masterHeight,
-              recordId,
-              round(arrangement.height, 3)
-            )
-          );
-        }
-      }
+  const queueChange = (key: keyof FieldIds, value: number | null) => {
+    const fieldId = fieldIds[key];
+    if (!fieldId) return;
+    const before = record.fields[fieldId] ?? null;
+    if (isSameCellValue(before, value)) return;
+    plan.changes.push({ key, fieldId, before, after: value });
+  };
 
-      if (isPositive(itemWeight)) {
-        netWeightKg = round(((itemWeight as number) / 1000) * masterQty, 3);
-        if (fieldIds.netWeight) {
-          masterUpdates.push(
-            table.setCellValue(fieldIds.netWeight, recordId, netWeightKg)
-          );
-        }
-      } else {
-        if (fieldIds.netWeight) {
-          masterUpdates.push(
-            table.setCellValue(fieldIds.netWeight, recordId, null)
+  const clearInnerValues = () => {
+    for (const key of INNER_FIELD_KEYS) {
+      queueChange(key, null);
+    }
+  };
+
+  const itemWidth = fetchLength("itemWidth", units.itemDimension);
+  const itemDepth = fetchLength("itemDepth", units.itemDimension);
+  const itemHeight = fetchLength("itemHeight", units.itemDimension);
+  const itemWeight = fetchWeight("itemWeight", units.itemWeight);
+  const innerQtyRaw = fetchValue("innerQty");
+  const masterQtyRaw = fetchValue("masterQty");
+  report.itemWidth = fetchValue("itemWidth");
+  report.itemDepth = fetchValue("itemDepth");
+  report.itemHeight = fetchValue("itemHeight");
+  report.itemWeight = fetchValue("itemWeight");
+  report.innerQty = innerQtyRaw;
+  report.masterQty = masterQtyRaw;
+
+  if (
+    !isPositive(itemWidth) ||
+    !isPositive(itemDepth) ||
+    !isPositive(itemHeight)
+  ) {
+    return skip(t("calc.skip.itemSize"));
+  }
+
+  if (innerQtyRaw != null && !Number.isInteger(innerQtyRaw)) {
+    return skip(t("calc.skip.innerQtyInteger"));
+  }
+
+  if (masterQtyRaw != null && !Number.isInteger(masterQtyRaw)) {
+    return skip(t("calc.skip.masterQtyInteger"));
+  }
+
+  const innerQty = innerQtyRaw ?? 0;
+  const masterQty = masterQtyRaw ?? 0;
+
+  const existingInnerWidth = fetchLength("innerWidth", units.cartonDimension);
+  const existingInnerDepth = fetchLength("innerDepth", units.cartonDimension);
+  const existingInnerHeight = fetchLength("innerHeight", units.cartonDimension);
+  const existingInnerWeight = fetchValue("innerWeight");
+
+  let innerArrangement: ArrangementResult | null = null;
+  let innerRanked: ArrangementResult[] = [];
+  let masterArrangement: ArrangementResult | null = null;
+  let masterBase: ArrangementInput;
+  let netWeight: number | null = null;
+  let grossWeightG: number | null = null;
+
+  if (innerQty > 0) {
+    const innerSearch = searchArrangements(
+      innerQty,
+      {
+        width: itemWidth as number,
+        depth: itemDepth as number,
+        height: itemHeight as number,
+      },
+      innerBufferInches,
+      { mode: orientationMode, wallInch: innerWallInches, objective: innerObjective }
+    );
+    const arrangement = innerSearch.best;
+    innerRanked = innerSearch.ranked;
+
+    if (!arrangement) {
+      onLog(t("calc.innerNotFound", { label }));
+    } else {
+      innerArrangement = arrangement;
+      report.inner = toCartonReport(arrangement);
+      queueChange("innerWidth", toCartonLength(arrangement.width));
+      queueChange("innerDepth", toCartonLength(arrangement.depth));
+      queueChange("innerHeight", toCartonLength(arrangement.height));
+      queueChange("innerInternalWidth", toCartonLength(arrangement.internal.width));
+      queueChange("innerInternalDepth", toCartonLength(arrangement.internal.depth));
+      queueChange("innerInternalHeight", toCartonLength(arrangement.internal.height));
+    }
+
+    const computedInnerWeightG = computeInnerGrossWeightG(
+      innerQty,
+      itemWeight,
+      computeTareGrams(innerMaterial, innerArrangement)
+    );
+    if (computedInnerWeightG != null) {
+      const computedInnerWeight = convertGramsToWeight(computedInnerWeightG, units.innerWeight);
+      report.innerWeight = round(computedInnerWeight, 3);
+      if (fieldIds.innerWeight) {
+        const shouldUpdate =
+          !isPositive(existingInnerWeight) ||
+          Math.abs((existingInnerWeight ?? 0) - computedInnerWeight) >
+            0.001;
+        if (shouldUpdate) {
+          queueChange("innerWeight", round(computedInnerWeight, 3));
+          onLog(
+            t("calc.innerWeightFilled", {
+              label,
+              weight: formatNumber(computedInnerWeight, 3),
+              unit: formatUnit(units.innerWeight),
+            })
           );
         }
-        onLog(`${label} 产品重量为空或为 0，净重已清空。`);
       }
+    } else if (!isPositive(existingInnerWeight)) {
+      onLog(t("calc.innerWeightMissing", { label }));
+    }
+  } else {
+    onLog(t("calc.noInner", { label }));
+    clearInnerValues();
+  }
 
-      if (masterUpdates.length) {
-        await Promise.all(masterUpdates);
-      }
+  if (innerArrangement) {
+    onLog(
+      t("calc.innerUpdated", {
+        label,
+        ...sizeParams(innerArrangement),
+        unit: cartonUnit,
+        internal: describeInternal(innerArrangement, innerWallInches),
+        arrangement: describeArrangement(innerArrangement),
+      })
+    );
+    logTopCandidates("calc.candidates.inner", innerObjective, innerRanked);
+  }
 
-      if (masterArrangement) {
-        onLog(
-          `${label} 外箱尺寸更新：${masterArrangement.width.toFixed(
-            2
-          )} × ${masterArrangement.depth.toFixed(
-            2
-          )} × ${masterArrangement.height.toFixed(2)} (in)。`
-        );
+  if (masterQty <= 0) {
+    const skipped = skip(t("calc.skip.masterQtyZero"));
+    if (masterQty === 0 && !quiet) {
+      try {
+        await notifier.notify(t("calc.casePackZero"), "warning");
+      } catch (toastError) {
+        logError("toast", toastError);
       }
+    }
+    return skipped;
+  }
 
-      if (netWeightKg != null) {
-        if (fieldIds.netWeight) {
-          onLog(`${label} 净重更新：${netWeightKg.toFixed(3)} kg。`);
-        } else {
-          onLog(
-            `${label} 未配置净重字段，无法写入 ${netWeightKg.toFixed(3)} kg。`
-          );
-        }
+  const divisor = innerQty > 0 ? innerQty : 1;
+  const ratio = masterQty / divisor;
+  if (!Number.isFinite(ratio) || ratio <= 0) {
+    return skip(t("calc.skip.ratio", { master: masterQty, inner: innerQty }));
+  }
+
+  const innersPerMaster = innerQty > 0 ? ratio : 0;
+
+  if (innerQty > 0) {
+    if (!Number.isInteger(innersPerMaster)) {
+      return skip(t("calc.skip.notDivisible", { master: masterQty, inner: innerQty }));
+    }
+
+    const baseWidth = [
+      innerArrangement?.width,
+      existingInnerWidth,
+      itemWidth,
+    ].find(isPositive);
+    const baseDepth = [
+      innerArrangement?.depth,
+      existingInnerDepth,
+      itemDepth,
+    ].find(isPositive);
+    const baseHeight = [
+      innerArrangement?.height,
+      existingInnerHeight,
+      itemHeight,
+    ].find(isPositive);
+
+    if (!baseWidth || !baseDepth || !baseHeight) {
+      return skip(t("calc.skip.innerSize"));
+    }
+
+    masterBase = {
+      width: baseWidth,
+      depth: baseDepth,
+      height: baseHeight,
+    };
+  } else {
+    masterBase = {
+      width: itemWidth as number,
+      depth: itemDepth as number,
+      height: itemHeight as number,
+    };
+  }
+
+  // Area-based master tare depends on the candidate's size, so the weight cap
+  // is checked per candidate inside the search.
+  const innerTareGrams = innerQty > 0 ? computeTareGrams(innerMaterial, masterBase) : 0;
+  const computeGrossWeightG = (carton: ArrangementInput) =>
+    computeMasterGrossWeightG(
+      masterQty,
+      innersPerMaster,
+      itemWeight,
+      innerTareGrams,
+      computeTareGrams(masterMaterial, carton)
+    );
+  const masterSearch = searchArrangements(
+    innerQty > 0 ? innersPerMaster : masterQty,
+    masterBase,
+    masterBufferInches,
+    {
+      mode: orientationMode,
+      wallInch: masterWallInches,
+      objective: masterObjective,
+      constraints: masterConstraints,
+      grossWeightKg: (candidate) => {
+        const grams = computeGrossWeightG(candidate);
+        return grams != null ? grams / 1000 : null;
+      },
+    }
+  );
+  masterArrangement = masterSearch.best;
+
+  if (!masterArrangement) {
+    if (masterSearch.rejections.length) {
+      logRejections(masterSearch.rejections);
+      return markSkipped(t("calc.skip.constraints"));
+    }
+    return skip(t("calc.skip.masterNotFound"));
+  }
+
+  queueChange("masterWidth", toCartonLength(masterArrangement.width));
+  queueChange("masterDepth", toCartonLength(masterArrangement.depth));
+  queueChange("masterHeight", toCartonLength(masterArrangement.height));
+  queueChange("masterInternalWidth", toCartonLength(masterArrangement.internal.width));
+  queueChange("masterInternalDepth", toCartonLength(masterArrangement.internal.depth));
+  queueChange("masterInternalHeight", toCartonLength(masterArrangement.internal.height));
+  report.master = toCartonReport(masterArrangement);
+  report.innersPerMaster = innersPerMaster > 0 ? innersPerMaster : null;
+
+  if (isPositive(itemWeight)) {
+    netWeight = round(
+      convertGramsToWeight((itemWeight as number) * masterQty, units.netWeight),
+      3
+    );
+    queueChange("netWeight", netWeight);
+  } else {
+    queueChange("netWeight", null);
+    onLog(t("calc.netWeightCleared", { label }));
+  }
+
+  queueChange("innerPerMaster", innersPerMaster > 0 ? innersPerMaster : null);
+
+  grossWeightG = computeGrossWeightG(masterArrangement);
+  const masterTareGrams = computeTareGrams(masterMaterial, masterArrangement);
+  const grossWeightKg = grossWeightG != null ? round(grossWeightG / 1000, 3) : null;
+  const grossWeightLb =
+    grossWeightG != null ? round(convertGramsToWeight(grossWeightG, "lb"), 3) : null;
+  queueChange("masterGrossWeightKg", grossWeightKg);
+  queueChange("masterGrossWeightLb", grossWeightLb);
+  report.netWeight = netWeight;
+  report.grossWeightKg = grossWeightKg;
+
+  const masterCubicInches =
+    masterArrangement.width * masterArrangement.depth * masterArrangement.height;
+  const masterCbm = round(convertCubicInchesToCbm(masterCubicInches), 4);
+  const masterCubeFeet = round(masterArrangement.cubeFeet, 3);
+  queueChange("masterCbm", masterCbm);
+  report.masterCbm = masterCbm;
+  queueChange("masterCubeFeet", masterCubeFeet);
+
+  const containerLoad = container
+    ? computeContainerLoad(
+        {
+          width: masterArrangement.width,
+          depth: masterArrangement.depth,
+          height: masterArrangement.height,
+          grossWeightKg,
+        },
+        container
+      )
+    : null;
+  if (containerLoad) {
+    queueChange("cartonsPerContainer", containerLoad.cartons);
+    queueChange("unitsPerContainer", containerLoad.cartons * masterQty);
+  }
+
+  const billable = dimProfile
+    ? computeBillableWeight(
+        masterArrangement,
+        grossWeightG != null ? grossWeightG / 1000 : null,
+        dimProfile
+      )
+    : null;
+  if (billable) {
+    queueChange("dimWeightKg", round(billable.dimWeightKg, 2));
+    queueChange("dimWeightLb", round(billable.dimWeightLb, 2));
+    queueChange(
+      "billableWeightKg",
+      billable.billableWeightKg != null ? round(billable.billableWeightKg, 2) : null
+    );
+    queueChange(
+      "billableWeightLb",
+      billable.billableWeightLb != null ? round(billable.billableWeightLb, 2) : null
+    );
+  }
+
+  const palletPlan = pallet
+    ? computePalletPlan(
+        {
+          width: masterArrangement.width,
+          depth: masterArrangement.depth,
+          height: masterArrangement.height,
+          grossWeightKg,
+        },
+        pallet
+      )
+    : null;
+  const palletHeight = palletPlan
+    ? round(
+        convertInchesToLength(convertCmToInches(palletPlan.totalHeightCm), units.cartonDimension),
+        2
+      )
+    : null;
+  if (palletPlan) {
+    queueChange("cartonsPerLayer", palletPlan.cartonsPerLayer);
+    queueChange("layersPerPallet", palletPlan.layers);
+    queueChange("cartonsPerPallet", palletPlan.cartonsPerPallet);
+    queueChange("palletHeight", palletHeight);
+    queueChange(
+      "palletWeight",
+      palletPlan.totalWeightKg != null ? round(palletPlan.totalWeightKg, 2) : null
+    );
+  }
+
+  onLog(
+    t("calc.masterUpdated", {
+      label,
+      ...sizeParams(masterArrangement),
+      unit: cartonUnit,
+      internal: describeInternal(masterArrangement, masterWallInches),
+      arrangement: describeArrangement(masterArrangement),
+    })
+  );
+  logTopCandidates("calc.candidates.master", masterObjective, masterSearch.ranked);
+  onArrangement?.(recordId, label, { inner: innerArrangement, master: masterArrangement }, units);
+
+  if (netWeight != null) {
+    const params = {
+      label,
+      weight: formatNumber(netWeight, 3),
+      unit: formatUnit(units.netWeight),
+    };
+    onLog(t(fieldIds.netWeight ? "calc.netWeightUpdated" : "calc.netWeightNoField", params));
+  }
+
+  if (grossWeightKg != null && grossWeightLb != null) {
+    onLog(
+      t("calc.grossWeightUpdated", {
+        label,
+        kg: formatNumber(grossWeightKg, 3),
+        lb: formatNumber(grossWeightLb, 3),
+        innerTare: formatNumber(innerTareGrams * innersPerMaster, 0),
+        masterTare: formatNumber(masterTareGrams, 0),
+      })
+    );
+  }
+
+  onLog(
+    t("calc.volume", {
+      label,
+      cbm: formatNumber(masterCbm, 4),
+      cubeFeet: formatNumber(masterCubeFeet, 3),
+    })
+  );
+
+  if (containerLoad) {
+    const weightFill =
+      containerLoad.weightFillRate != null
+        ? `${formatNumber(containerLoad.weightFillRate * 100, 1)}%`
+        : t("calc.unknownGrossWeight");
+    onLog(
+      t("calc.container", {
+        label,
+        type: containerLoad.container.type,
+        cartons: containerLoad.cartons,
+        units: containerLoad.cartons * masterQty,
+        volumeRate: formatNumber(containerLoad.volumeFillRate * 100, 1),
+        weightRate: weightFill,
+        limit: t(
+          containerLoad.limitedBy === "weight"
+            ? "calc.container.byWeight"
+            : "calc.container.byVolume"
+        ),
+      })
+    );
+  }
+
+  if (billable) {
+    const unit = billable.profile.system === "imperial" ? "lbs" : "kg";
+    const dimValue =
+      billable.profile.system === "imperial" ? billable.dimWeightLb : billable.dimWeightKg;
+    const billableValue =
+      billable.profile.system === "imperial"
+        ? billable.billableWeightLb
+        : billable.billableWeightKg;
+    const params = {
+      label,
+      profile: billable.profile.label,
+      dim: formatNumber(dimValue, 2),
+      unit,
+    };
+    if (billableValue == null) {
+      onLog(t("calc.dimWeightNoGross", params));
+    } else {
+      onLog(
+        t("calc.billableWeight", {
+          ...params,
+          billable: formatNumber(billableValue, 2),
+          basis: t(
+            billable.billedOn === "dimensional" ? "calc.billedOnDim" : "calc.billedOnActual"
+          ),
+        })
+      );
+    }
+  }
+
+  if (pallet && !palletPlan) {
+    onLog(t("calc.palletMiss", { label, pallet: pallet.spec.type }));
+  } else if (palletPlan) {
+    if (palletPlan.layers === 0) {
+      onLog(t("calc.palletNoLayer", { label, pallet: palletPlan.spec.type }));
+    } else {
+      const weight =
+        palletPlan.totalWeightKg != null
+          ? `${formatNumber(palletPlan.totalWeightKg, 1)} kg`
+          : t("calc.unknownGrossWeight");
+      onLog(
+        t("calc.pallet", {
+          label,
+          pallet: palletPlan.spec.type,
+          perLayer: palletPlan.cartonsPerLayer,
+          layers: palletPlan.layers,
+          perPallet: palletPlan.cartonsPerPallet,
+          height: formatNumber(palletHeight ?? 0, 2),
+          unit: cartonUnit,
+          weight,
+          limit: t(
+            palletPlan.limitedBy === "weight" ? "calc.pallet.byWeight" : "calc.pallet.byHeight"
+          ),
+        })
+      );
+    }
+    onPalletPlan?.(label, palletPlan);
+  }
+
+  return { plan, report };
+}
+
+function toRecordUpdate(plan: RecordPlan): RecordUpdate {
+  const fields: Record<string, unknown> = {};
+  for (const change of plan.changes) {
+    fields[change.fieldId] = change.after;
+  }
+  return { recordId: plan.recordId, fields };
+}
+
+function toRecordEvent(
+  report: RecordReport,
+  plan: RecordPlan | undefined,
+  writeFailed: boolean,
+  dryRun: boolean
+): RecordEvent {
+  const changes = plan?.changes ?? [];
+  const event = { recordId: report.recordId, label: report.label, itemCode: report.itemCode };
+  if (report.status === "failed" || writeFailed) {
+    const message = writeFailed ? t("error.writeFailed") : report.reason ?? t("error.unknown");
+    return { ...event, severity: "error", category: "error", message, changes };
+  }
+  if (report.status === "skipped") {
+    const message = report.reason ?? "";
+    return { ...event, severity: "warning", category: "skipped", message, changes };
+  }
+  if (!changes.length) {
+    const message = t("event.unchanged");
+    return { ...event, severity: "info", category: "unchanged", message, changes };
+  }
+  const message = t(dryRun ? "event.pending" : "event.updated", { count: changes.length });
+  return { ...event, severity: "info", category: "updated", message, changes };
+}
+
+function formatSeconds(ms: number): string {
+  return `${formatNumber(ms / 1000, 1)} s`;
+}
+
+/**
+ * Writes computed plans (a full run, or the records accepted in the preview)
+ * to the table. The cells about to be overwritten are snapshotted first so the
+ * run can be undone; when the snapshot cannot be stored nothing is written and
+ * an error is thrown. Returns the number of records written successfully.
+ */
+export async function applyRecordPlans(
+  context: PluginContext,
+  plans: RecordPlan[],
+  onLog: (message: string) => void
+): Promise<number> {
+  return (await writeRecordPlans(context, plans, onLog)).written;
+}
+
+async function writeRecordPlans(
+  context: PluginContext,
+  plans: RecordPlan[],
+  onLog: (message: string) => void
+): Promise<{ written: number; failedRecordIds: string[] }> {
+  const pending = plans.filter((plan) => plan.changes.length > 0);
+  if (!pending.length) {
+    onLog(t("calc.noChanges"));
+    return { written: 0, failedRecordIds: [] };
+  }
+
+  // A write that cannot be undone is not made at all.
+  const snapshot = await saveRunSnapshot(context, pending);
+  if (!snapshot) {
+    throw new Error(t("calc.snapshotFailed"));
+  }
+
+  const { written, failedRecordIds } = await writeRecords(
+    context.table,
+    pending.map(toRecordUpdate)
+  );
+  if (failedRecordIds.length) {
+    const failed = new Set(failedRecordIds);
+    for (const plan of pending) {
+      if (failed.has(plan.recordId)) {
+        onLog(t("calc.writeFailed", { label: plan.label }));
       }
+    }
+  }
+  onLog(t("calc.written", { written, total: pending.length }));
+  return { written, failedRecordIds };
+}
+
+export async function runCalculation(
+  context: PluginContext,
+  options: CalculationOptions
+): Promise<CalculationResult> {
+  const { table, view } = context;
+  const {
+    forceAll,
+    innerBuffer,
+    innerBufferUnit,
+    masterBuffer,
+    masterBufferUnit,
+    innerMaterial,
+    masterMaterial,
+    units,
+    orientationMode,
+    masterConstraints,
+    objective,
+    container,
+    pallet,
+    dimProfile,
+    dryRun = false,
+    onLog,
+    onEvent,
+  } = options;
 
-      processed += 1;
+  const objectives = resolveObjectives(objective, pallet?.spec ?? null);
+  if (objectives.fellBack) {
+    onLog(t("calc.palletFitFallback"));
+  }
+
+  const headerUnits = await loadHeaderUnits(table, units, context.fieldIds);
+  const { fieldIds } = headerUnits;
+
+  const settings: ResolvedSettings = {
+    innerBuffer,
+    innerBufferUnit,
+    masterBuffer,
+    masterBufferUnit,
+    materials: options.materials ?? BUILT_IN_MATERIALS,
+    innerBufferInches: resolveInnerBufferInches(innerBuffer, innerBufferUnit, innerMaterial),
+    masterBufferInches: convertBufferToInches(masterBuffer, masterBufferUnit),
+    innerWallInches: getWallInches(innerMaterial),
+    masterWallInches: getWallInches(masterMaterial),
+    innerMaterial,
+    masterMaterial,
+    units: headerUnits.units,
+    orientationMode,
+    masterConstraints,
+    innerObjective: objectives.inner,
+    masterObjective: objectives.master,
+    container,
+    pallet,
+    dimProfile,
+  };
+
+  const selectedIds = options.recordIds
+    ? []
+    : normaliseIds(await view.getSelectedRecordIdList());
+  let recordIds: string[];
+
+  if (options.recordIds) {
+    recordIds = normaliseIds(options.recordIds);
+  } else if (forceAll) {
+    recordIds = normaliseIds(await view.getVisibleRecordIdList());
+  } else if (selectedIds.length > 0) {
+    recordIds = selectedIds;
+  } else {
+    recordIds = normaliseIds(await view.getVisibleRecordIdList());
+  }
+
+  const result: CalculationResult = {
+    total: recordIds.length,
+    processed: 0,
+    plans: [],
+    reports: [],
+    records: [],
+    units: headerUnits.units,
+    fieldIds,
+  };
+  const startedAt = performance.now();
+
+  if (!recordIds.length) {
+    onLog(t("calc.noRecords"));
+    return result;
+  }
+
+  onLog(
+    t(dryRun ? "calc.startPreview" : "calc.start", { count: recordIds.length })
+  );
+  headerUnits.messages.forEach((message) => onLog(message));
+
+  const wholeView = !options.recordIds && (forceAll || selectedIds.length === 0);
+  const records = await fetchRecords(table, view, recordIds, wholeView);
+  result.records = records;
+  const fetchedAt = performance.now();
+
+  for (const [index, record] of records.entries()) {
+    const label = formatRecordLabel(record.recordId, index, null);
+    try {
+      const { plan, report } = await planRecord(record, index, fieldIds, settings, {
+        ...options,
+        notifier: context.notifier,
+      });
+      result.plans.push(plan);
+      result.reports.push(report);
+      result.processed += 1;
     } catch (err) {
       logError("record-calc", err);
-      onLog(`${label} 计算失败：${(err as Error).message ?? "未知错误"}`);
+      const message = (err as Error).message ?? t("error.unknown");
+      onLog(t("calc.failed", { label, message }));
+      result.reports.push({
+        ...createRecordReport(record.recordId, label, settings),
+        status: "failed",
+        reason: t("calc.failedReason", { message }),
+      });
+    }
+  }
+  const plannedAt = performance.now();
+
+  const failedWrites = new Set<string>();
+  if (!dryRun) {
+    const { failedRecordIds } = await writeRecordPlans(context, result.plans, onLog);
+    for (const recordId of failedRecordIds) failedWrites.add(recordId);
+  }
+  if (onEvent) {
+    const plans = new Map(result.plans.map((plan) => [plan.recordId, plan]));
+    for (const report of result.reports) {
+      const plan = plans.get(report.recordId);
+      onEvent(toRecordEvent(report, plan, failedWrites.has(report.recordId), dryRun));
     }
   }
 
-  onLog(`已完成 ${processed}/${recordIds.length} 条记录计算。`);
+  const finishedAt = performance.now();
+  const elapsed = finishedAt - startedAt;
+  const throughput = elapsed > 0 ? (result.processed / elapsed) * 1000 : 0;
+  onLog(
+    t("calc.finished", {
+      processed: result.processed,
+      total: recordIds.length,
+      elapsed: formatSeconds(elapsed),
+      read: formatSeconds(fetchedAt - startedAt),
+      plan: formatSeconds(plannedAt - fetchedAt),
+      write: formatSeconds(finishedAt - plannedAt),
+      rate: formatNumber(throughput, 1),
+    })
+  );
+  return result;
 }
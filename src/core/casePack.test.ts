@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { loadCasePackItem, recommendCasePacks, type CasePackOptions } from "./casePack";
+import { DEFAULT_UNITS } from "./calculator";
+import { loadHeaderUnits } from "./headerUnits";
+import { DEFAULT_OBJECTIVE } from "./objectives";
+import type { FieldIds } from "../config/fields";
+import { createSolBase, material, renameFields, type TestRow } from "../test/memoryBase";
+
+const item: TestRow = {
+  itemCode: "SOL-1",
+  itemWidth: 4,
+  itemDepth: 3,
+  itemHeight: 2,
+  itemWeight: 150,
+};
+
+const packaging = {
+  innerMaterial: material("Box"),
+  innerBuffer: 1,
+  innerBufferUnit: "inch",
+  masterBuffer: 0,
+  masterBufferUnit: "inch",
+} as const;
+
+const options: CasePackOptions = {
+  masterMin: 2,
+  masterMax: 2,
+  innerMin: 1,
+  innerMax: 1,
+  allowNoInner: false,
+  masterMaterial: null,
+  orientationMode: "any",
+  innerObjective: DEFAULT_OBJECTIVE,
+  masterObjective: DEFAULT_OBJECTIVE,
+  masterConstraints: {},
+  limit: 10,
+};
+
+async function suggestInner(row: TestRow, names: Partial<Record<keyof FieldIds, string>> = {}) {
+  const base = createSolBase([row], renameFields(names));
+  const { table, fieldIds } = base.context;
+  const columns = await loadHeaderUnits(table, DEFAULT_UNITS, fieldIds);
+  const onLog = () => {};
+  const loaded = await loadCasePackItem(base.context, "rec1", columns, packaging, onLog);
+  if (!loaded) throw new Error("rec1 has no item size");
+  const [suggestion] = recommendCasePacks(loaded, options);
+  const inner = suggestion.inner;
+  return inner ? [inner.width, inner.depth, inner.height].sort((a, b) => a - b) : null;
+}
+
+describe("loadCasePackItem", () => {
+  it("sizes the inner with the panel packaging by default", async () => {
+    expect(await suggestInner(item)).toEqual([3, 4, 5]);
+  });
+
+  it("applies the record's packaging columns like a calculation", async () => {
+    expect(await suggestInner({ ...item, innerMaterial: "Poly Bag" })).toEqual([2, 3, 4]);
+    expect(await suggestInner({ ...item, innerBuffer: 2 })).toEqual([4, 5, 6]);
+  });
+
+  it("reads the item size in the unit its headers state", async () => {
+    const cm = { ...item, itemWidth: 10.16, itemDepth: 7.62, itemHeight: 5.08 };
+    const names = {
+      itemWidth: "Item Width (cm)",
+      itemDepth: "Item Depth (cm)",
+      itemHeight: "Item Height (cm)",
+    };
+    expect(await suggestInner(cm, names)).toEqual([3, 4, 5]);
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  searchArrangements,
+  type ArrangementConstraints,
+  type ArrangementInput,
+  type ArrangementResult,
+  type OrientationMode,
+} from "./arrangement";
+import {
+  computeMasterGrossWeightG,
+  formatRecordLabel,
+  readTextCell,
+  resolveRecordPackaging,
+  type PackagingDefaults,
+  type RecordPackaging,
+} from "./calculator";
+import type { PluginContext } from "./context";
+import type { HeaderUnits } from "./headerUnits";
+import type { ArrangementObjective } from "./objectives";
+import { computeTareGrams, getWallInches, type PackagingMaterial } from "./packaging";
+import { fetchRecords } from "./records";
+import {
+  convertLengthToInches,
+  convertWeightToGrams,
+  extractNumber,
+} from "../utils/numbers";
+
+/** Upper bound on the Master Qty range so one click can't stall the panel. */
+export const MAX_CASE_PACK_RANGE = 500;
+
+export interface CasePackOptions {
+  masterMin: number;
+  masterMax: number;
+  innerMin: number;
+  innerMax: number;
+  /** Also suggest master cartons packed without inner cartons. */
+  allowNoInner: boolean;
+  masterMaterial: PackagingMaterial | null;
+  orientationMode: OrientationMode;
+  innerObjective: ArrangementObjective;
+  masterObjective: ArrangementObjective;
+  masterConstraints: ArrangementConstraints;
+  /** Number of suggestions returned. */
+  limit: number;
+}
+
+export interface CasePackItem {
+  recordId: string;
+  label: string;
+  /** Item size in inches. */
+  dims: ArrangementInput;
+  weightG: number | null;
+  /** Inner packaging and buffers after the record's override columns. */
+  packaging: RecordPackaging;
+  /** Raw Inner Qty / Master Qty cells, kept for the undo snapshot. */
+  innerQtyCell: unknown;
+  masterQtyCell: unknown;
+}
+
+export interface CasePackSuggestion {
+  innerQty: number;
+  masterQty: number;
+  inner: ArrangementResult | null;
+  master: ArrangementResult;
+  grossWeightKg: number | null;
+  /** Share of the master carton volume taken by the items themselves. */
+  fillRate: number;
+}
+
+/**
+ * Reads the item size and weight of one record through `columns`, the units
+ * and columns `resolveHeaderUnits` settled on, and resolves its packaging
+ * overrides the way a calculation would. Returns null when a dimension is missing.
+ */
+export async function loadCasePackItem(
+  context: PluginContext,
+  recordId: string,
+  columns: Pick<HeaderUnits, "units" | "fieldIds">,
+  packaging: PackagingDefaults,
+  onLog: (message: string) => void
+): Promise<CasePackItem | null> {
+  const { table, view } = context;
+  const { units, fieldIds } = columns;
+  const [record] = await fetchRecords(table, view, [recordId], false);
+  if (!record) return null;
+  const { fields } = record;
+  const read = (fieldId: string) => (fieldId ? extractNumber(fields[fieldId]) : null);
+
+  const width = read(fieldIds.itemWidth);
+  const depth = read(fieldIds.itemDepth);
+  const height = read(fieldIds.itemHeight);
+  if (!width || !depth || !height || width <= 0 || depth <= 0 || height <= 0) {
+    return null;
+  }
+  const weight = read(fieldIds.itemWeight);
+  const itemCode = fieldIds.itemCode ? readTextCell(fields[fieldIds.itemCode]) : null;
+  const label = formatRecordLabel(recordId, 0, itemCode);
+
+  return {
+    recordId,
+    label,
+    dims: {
+      width: convertLengthToInches(width, units.itemDimension),
+      depth: convertLengthToInches(depth, units.itemDimension),
+      height: convertLengthToInches(height, units.itemDimension),
+    },
+    weightG: weight != null && weight > 0 ? convertWeightToGrams(weight, units.itemWeight) : null,
+    packaging: resolveRecordPackaging(fields, fieldIds, packaging, label, onLog),
+    innerQtyCell: fields[fieldIds.innerQty],
+    masterQtyCell: fields[fieldIds.masterQty],
+  };
+}
+
+function innerOptions(masterQty: number, options: CasePackOptions): number[] {
+  const list: number[] = options.allowNoInner ? [0] : [];
+  const from = Math.max(1, Math.ceil(options.innerMin));
+  const to = Math.min(masterQty - 1, Math.floor(options.innerMax));
+  for (let innerQty = from; innerQty <= to; innerQty += 1) {
+    if (masterQty % innerQty === 0) list.push(innerQty);
+  }
+  return list;
+}
+
+/**
+ * Tries every Master Qty in the preferred range with each Inner Qty that
+ * divides it, packs them like `runCalculation` would, and ranks the cartons
+ * meeting the constraints by fill rate (item volume / master volume).
+ */
+export function recommendCasePacks(
+  item: CasePackItem,
+  options: CasePackOptions
+): CasePackSuggestion[] {
+  const { dims, weightG, packaging } = item;
+  const itemVolume = dims.width * dims.depth * dims.height;
+  const masterMin = Math.max(1, Math.ceil(options.masterMin));
+  const masterMax = Math.min(
+    Math.floor(options.masterMax),
+    masterMin + MAX_CASE_PACK_RANGE - 1
+  );
+
+  // The same inner carton shows up under many master quantities.
+  const innerCache = new Map<number, ArrangementResult | null>();
+  const getInner = (innerQty: number) => {
+    if (!innerCache.has(innerQty)) {
+      const { best } = searchArrangements(innerQty, dims, packaging.innerBufferInches, {
+        mode: options.orientationMode,
+        wallInch: getWallInches(packaging.innerMaterial),
+        objective: options.innerObjective,
+      });
+      innerCache.set(innerQty, best);
+    }
+    return innerCache.get(innerQty) ?? null;
+  };
+
+  const suggestions: CasePackSuggestion[] = [];
+  for (let masterQty = masterMin; masterQty <= masterMax; masterQty += 1) {
+    for (const innerQty of innerOptions(masterQty, options)) {
+      const inner = innerQty > 0 ? getInner(innerQty) : null;
+      if (innerQty > 0 && !inner) continue;
+
+      const innersPerMaster = innerQty > 0 ? masterQty / innerQty : 0;
+      const innerTareGrams = computeTareGrams(packaging.innerMaterial, inner);
+      const computeGrossWeightKg = (carton: ArrangementInput) => {
+        const grams = computeMasterGrossWeightG(
+          masterQty,
+          innersPerMaster,
+          weightG,
+          innerTareGrams,
+          computeTareGrams(options.masterMaterial, carton)
+        );
+        return grams != null ? grams / 1000 : null;
+      };
+      const master = searchArrangements(
+        innerQty > 0 ? innersPerMaster : masterQty,
+        inner ?? dims,
+        packaging.masterBufferInches,
+        {
+          mode: options.orientationMode,
+          wallInch: getWallInches(options.masterMaterial),
+          objective: options.masterObjective,
+          constraints: options.masterConstraints,
+          grossWeightKg: computeGrossWeightKg,
+        }
+      ).best;
+      if (!master) continue;
+
+      const masterVolume = master.width * master.depth * master.height;
+      suggestions.push({
+        innerQty,
+        masterQty,
+        inner,
+        master,
+        grossWeightKg: computeGrossWeightKg(master),
+        fillRate: (itemVolume * masterQty) / masterVolume,
+      });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.fillRate - a.fillRate || b.masterQty - a.masterQty)
+    .slice(0, options.limit);
+}
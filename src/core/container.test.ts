@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { CONTAINER_SPECS, computeContainerLoad, type CartonInput } from "./container";
+
+/** 50.8 × 38.1 × 25.4 cm. */
+const carton: CartonInput = { width: 20, depth: 15, height: 10, grossWeightKg: null };
+
+describe("computeContainerLoad", () => {
+  it("picks the floor orientation that fits the most cartons", () => {
+    const load = computeContainerLoad(carton, CONTAINER_SPECS["20GP"]);
+
+    // 11 × 6 beats 15 × 4 on the floor; 9 layers fit under 239 cm.
+    expect(load?.counts).toEqual([11, 6, 9]);
+    expect(load?.cartons).toBe(594);
+    expect(load?.cartonsByWeight).toBeNull();
+    expect(load?.limitedBy).toBe("volume");
+    expect(load?.volumeFillRate).toBeCloseTo(0.8827, 4);
+    expect(load?.weightFillRate).toBeNull();
+  });
+
+  it("caps the count at the container payload", () => {
+    const load = computeContainerLoad({ ...carton, grossWeightKg: 50 }, CONTAINER_SPECS["20GP"]);
+
+    expect(load?.cartonsByVolume).toBe(594);
+    expect(load?.cartonsByWeight).toBe(564);
+    expect(load?.cartons).toBe(564);
+    expect(load?.limitedBy).toBe("weight");
+    expect(load?.weightFillRate).toBeCloseTo(1, 10);
+  });
+
+  it("fits more layers in a high cube", () => {
+    expect(computeContainerLoad(carton, CONTAINER_SPECS["40GP"])?.counts).toEqual([23, 6, 9]);
+    expect(computeContainerLoad(carton, CONTAINER_SPECS["40HQ"])?.counts).toEqual([23, 6, 10]);
+  });
+
+  it("returns null without a usable carton size", () => {
+    expect(computeContainerLoad({ ...carton, height: 0 }, CONTAINER_SPECS["20GP"])).toBeNull();
+    expect(
+      computeContainerLoad({ ...carton, width: Number.NaN }, CONTAINER_SPECS["20GP"])
+    ).toBeNull();
+  });
+});
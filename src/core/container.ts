@@ -0,0 +1,96 @@
+import { convertInchesToCm } from "../utils/numbers";
+
+export type ContainerType = "20GP" | "40GP" | "40HQ" | "45HQ" | "custom";
+
+export interface ContainerSpec {
+  type: ContainerType;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  maxPayloadKg: number;
+}
+
+/** Typical internal dimensions and payload limits of ISO dry containers. */
+export const CONTAINER_SPECS: Record<Exclude<ContainerType, "custom">, ContainerSpec> = {
+  "20GP": { type: "20GP", lengthCm: 589, widthCm: 235, heightCm: 239, maxPayloadKg: 28200 },
+  "40GP": { type: "40GP", lengthCm: 1203, widthCm: 235, heightCm: 239, maxPayloadKg: 26700 },
+  "40HQ": { type: "40HQ", lengthCm: 1203, widthCm: 235, heightCm: 269, maxPayloadKg: 26500 },
+  "45HQ": { type: "45HQ", lengthCm: 1355, widthCm: 235, heightCm: 269, maxPayloadKg: 27600 },
+};
+
+export interface CartonInput {
+  width: number;
+  depth: number;
+  height: number;
+  grossWeightKg: number | null;
+}
+
+export interface ContainerLoadResult {
+  container: ContainerSpec;
+  cartons: number;
+  cartonsByVolume: number;
+  cartonsByWeight: number | null;
+  limitedBy: "volume" | "weight";
+  counts: [number, number, number];
+  volumeFillRate: number;
+  weightFillRate: number | null;
+}
+
+function fitCount(space: number, size: number): number {
+  if (!(size > 0)) return 0;
+  return Math.floor(space / size + 1e-9);
+}
+
+/**
+ * Packs identical master cartons into a container as a single block. Cartons
+ * stay upright (height vertical) and are tried in both floor orientations.
+ * Dimensions of the carton are expected in inches.
+ */
+export function computeContainerLoad(
+  carton: CartonInput,
+  container: ContainerSpec
+): ContainerLoadResult | null {
+  const widthCm = convertInchesToCm(carton.width);
+  const depthCm = convertInchesToCm(carton.depth);
+  const heightCm = convertInchesToCm(carton.height);
+  if ([widthCm, depthCm, heightCm].some((value) => !(value > 0))) return null;
+
+  const layers = fitCount(container.heightCm, heightCm);
+  let bestCounts: [number, number, number] = [0, 0, layers];
+  for (const [alongLength, alongWidth] of [
+    [widthCm, depthCm],
+    [depthCm, widthCm],
+  ]) {
+    const counts: [number, number, number] = [
+      fitCount(container.lengthCm, alongLength),
+      fitCount(container.widthCm, alongWidth),
+      layers,
+    ];
+    if (counts[0] * counts[1] > bestCounts[0] * bestCounts[1]) {
+      bestCounts = counts;
+    }
+  }
+
+  const cartonsByVolume = bestCounts[0] * bestCounts[1] * bestCounts[2];
+  const grossWeightKg =
+    carton.grossWeightKg != null && carton.grossWeightKg > 0 ? carton.grossWeightKg : null;
+  const cartonsByWeight =
+    grossWeightKg != null ? Math.floor(container.maxPayloadKg / grossWeightKg) : null;
+  const cartons =
+    cartonsByWeight != null ? Math.min(cartonsByVolume, cartonsByWeight) : cartonsByVolume;
+
+  const containerVolume = container.lengthCm * container.widthCm * container.heightCm;
+  const cartonVolume = widthCm * depthCm * heightCm;
+
+  return {
+    container,
+    cartons,
+    cartonsByVolume,
+    cartonsByWeight,
+    limitedBy: cartonsByWeight != null && cartonsByWeight < cartonsByVolume ? "weight" : "volume",
+    counts: bestCounts,
+    volumeFillRate: containerVolume > 0 ? (cartons * cartonVolume) / containerVolume : 0,
+    weightFillRate:
+      grossWeightKg != null ? (cartons * grossWeightKg) / container.maxPayloadKg : null,
+  };
+}
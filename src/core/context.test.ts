@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { buildFieldMap } from "./context";
+import { SOL_FIELDS, fieldId } from "../test/memoryBase";
+
+describe("buildFieldMap", () => {
+  it("uses a saved mapping when no other key needs the column", () => {
+    const fields = SOL_FIELDS.filter((meta) => meta.id !== fieldId("masterGrossWeightKg"));
+    const extra = { id: "fldGross", name: "Gross", type: 2 };
+    const { fieldIds, conflicts } = buildFieldMap([...fields, extra], {
+      masterGrossWeightKg: "fldGross",
+    });
+
+    expect(fieldIds.masterGrossWeightKg).toBe("fldGross");
+    expect(conflicts).toEqual([]);
+  });
+
+  it("rejects a mapping onto the column another key matches by name", () => {
+    const { fieldIds, conflicts } = buildFieldMap(SOL_FIELDS, {
+      masterGrossWeightKg: fieldId("netWeight"),
+    });
+
+    expect(fieldIds.netWeight).toBe(fieldId("netWeight"));
+    expect(fieldIds.masterGrossWeightKg).toBe(fieldId("masterGrossWeightKg"));
+    expect(conflicts).toEqual(["G.W. (kg)"]);
+  });
+
+  it("rejects one column mapped to two keys", () => {
+    const fields = SOL_FIELDS.filter(
+      (meta) => meta.id !== fieldId("innerBuffer") && meta.id !== fieldId("masterBuffer")
+    );
+    const extra = { id: "fldBuffer", name: "Buffer", type: 2 };
+    const { fieldIds, conflicts } = buildFieldMap([...fields, extra], {
+      innerBuffer: "fldBuffer",
+      masterBuffer: "fldBuffer",
+    });
+
+    expect(fieldIds.innerBuffer).toBe("");
+    expect(fieldIds.masterBuffer).toBe("");
+    expect(conflicts).toEqual(["Inner Buffer", "Master Buffer"]);
+  });
+
+  it("reports a required field whose only mapping was rejected as missing", () => {
+    const fields = SOL_FIELDS.filter((meta) => meta.id !== fieldId("netWeight"));
+    const { fieldIds, missingFields } = buildFieldMap(fields, {
+      netWeight: fieldId("itemWeight"),
+    });
+
+    expect(fieldIds.itemWeight).toBe(fieldId("itemWeight"));
+    expect(fieldIds.netWeight).toBe("");
+    expect(missingFields).toEqual(["N.W. (kg)"]);
+  });
+});
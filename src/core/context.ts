@@ -6,11 +6,22 @@ import {
   type FieldKey,
   type OptionalFieldKey,
 } from "../config/fields";
-import { getFieldIdByName, type FieldMetaLike } from "../utils/field";
+import { getFieldIdByNames, type FieldMetaLike } from "../utils/field";
+import type { BaseAdapter, Notifier, TableAdapter, ViewAdapter } from "./adapter";
+import { loadFieldMapping, type FieldMapping } from "./fieldMapping";
+import {
+  createLarkBaseAdapter,
+  createLarkTableAdapter,
+  createLarkViewAdapter,
+  larkNotifier,
+} from "./larkAdapter";
 
 export interface PluginContext {
-  table: any;
-  view: any;
+  base: BaseAdapter;
+  table: TableAdapter;
+  view: ViewAdapter;
+  notifier: Notifier;
+  tableId: string;
   tableName: string;
   viewName: string;
   fieldIds: FieldIds;
@@ -24,6 +35,7 @@ export interface ContextLoadResult {
 interface TableCandidate {
   table: any;
   view: any | null;
+  tableId: string;
   tableName: string;
   viewName: string;
   fieldIds: FieldIds;
@@ -31,30 +43,68 @@ interface TableCandidate {
   recordCount: number;
 }
 
-function buildFieldMap(fieldMetas: FieldMetaLike[]): { fieldIds: FieldIds; missingFields: string[] } {
-  const requiredEntries = Object.entries(FIELD_KEYS).map(([key, info]) => {
-    const id = getFieldIdByName(fieldMetas, info.name, info.type);
-    return [key as FieldKey, id ?? ""] as const;
-  });
+/**
+ * Resolves every logical field key to a field id. A field picked in the
+ * field-mapping screen wins as long as it still exists; otherwise the field is
+ * matched by its display name. A column serves one key at most: a mapping that
+ * points at a column another key also uses is rejected, its key falls back to
+ * the name match, and its display name is listed in `conflicts`.
+ */
+export function buildFieldMap(
+  fieldMetas: FieldMetaLike[],
+  mapping: FieldMapping = {}
+): { fieldIds: FieldIds; missingFields: string[]; conflicts: string[] } {
+  const existingIds = new Set(fieldMetas.map((meta) => meta.id));
+  const resolve = (key: keyof FieldIds, names: readonly string[], type?: number) => {
+    const id = mapping[key];
+    return {
+      key,
+      name: names[0],
+      mapped: id && existingIds.has(id) ? id : undefined,
+      named: getFieldIdByNames(fieldMetas, names, type),
+    };
+  };
 
-  const optionalEntries = Object.entries(OPTIONAL_FIELD_KEYS).map(([key, info]) => {
-    const id = getFieldIdByName(fieldMetas, info.name, info.type);
-    return [key as OptionalFieldKey, id ?? ""] as const;
-  });
+  const entries = [
+    ...Object.entries(FIELD_KEYS).map(([key, info]) =>
+      resolve(key as FieldKey, [info.name, ...info.aliases], info.type)
+    ),
+    ...Object.entries(OPTIONAL_FIELD_KEYS).map(([key, info]) =>
+      resolve(
+        key as OptionalFieldKey,
+        "aliases" in info ? [info.name, ...info.aliases] : [info.name],
+        "type" in info ? info.type : undefined
+      )
+    ),
+  ];
 
-  const missingFields = requiredEntries
-    .filter(([, id]) => !id)
-    .map(([key]) => FIELD_KEYS[key].name);
+  const users = new Map<string, number>();
+  for (const { mapped, named } of entries) {
+    const id = mapped ?? named;
+    if (id) users.set(id, (users.get(id) ?? 0) + 1);
+  }
+  const rejected = new Set(
+    entries.filter(({ mapped }) => mapped && (users.get(mapped) ?? 0) > 1).map(({ key }) => key)
+  );
+  const kept = new Set(
+    entries.filter(({ key }) => !rejected.has(key)).map(({ mapped, named }) => mapped ?? named)
+  );
 
   const fieldIds = Object.create(null) as FieldIds;
-  for (const [key, id] of requiredEntries) {
-    fieldIds[key] = id ?? "";
-  }
-  for (const [key, id] of optionalEntries) {
-    fieldIds[key] = id ?? "";
+  for (const { key, mapped, named } of entries) {
+    if (!rejected.has(key)) {
+      fieldIds[key] = mapped ?? named ?? "";
+    } else {
+      fieldIds[key] = named && !kept.has(named) ? named : "";
+    }
   }
 
-  return { fieldIds, missingFields };
+  const missingFields = (Object.keys(FIELD_KEYS) as FieldKey[])
+    .filter((key) => !fieldIds[key])
+    .map((key) => FIELD_KEYS[key].name);
+  const conflicts = entries.filter(({ key }) => rejected.has(key)).map(({ name }) => name);
+
+  return { fieldIds, missingFields, conflicts };
 }
 
 async function getRecordCount(table: any, view: any | null): Promise<number> {
@@ -136,12 +186,15 @@ async function buildCandidates(): Promise<TableCandidate[]> {
       if (!table) continue;
       const fieldMetas = await table.getFieldMetaList?.();
       if (!Array.isArray(fieldMetas)) continue;
-      const { fieldIds, missingFields } = buildFieldMap(fieldMetas as FieldMetaLike[]);
+      const tableId: string = meta?.id ?? table.id ?? "";
+      const mapping = await loadFieldMapping(tableId);
+      const { fieldIds, missingFields } = buildFieldMap(fieldMetas as FieldMetaLike[], mapping);
       const { view, name: viewName, recordCount } = await pickView(table);
       const tableName = meta?.name ?? (await table.getName?.()) ?? "";
       candidates.push({
         table,
         view,
+        tableId,
         tableName,
         viewName,
         fieldIds,
@@ -171,18 +224,22 @@ function selectBestCandidate(candidates: TableCandidate[]): TableCandidate | nul
 async function loadFromActive(): Promise<ContextLoadResult> {
   const table = await bitable.base.getActiveTable();
   const view = await table.getActiveView();
-  const [tableName, viewName, fieldMetas] = await Promise.all([
+  const [tableName, viewName, fieldMetas, mapping] = await Promise.all([
     table.getName(),
     view.getName(),
     table.getFieldMetaList(),
+    loadFieldMapping(table.id),
   ]);
 
-  const { fieldIds, missingFields } = buildFieldMap(fieldMetas as FieldMetaLike[]);
+  const { fieldIds, missingFields } = buildFieldMap(fieldMetas as FieldMetaLike[], mapping);
 
   return {
     context: {
-      table,
-      view,
+      base: createLarkBaseAdapter(),
+      table: createLarkTableAdapter(table),
+      view: createLarkViewAdapter(view),
+      notifier: larkNotifier,
+      tableId: table.id,
       tableName,
       viewName,
       fieldIds,
@@ -199,8 +256,11 @@ export async function loadPluginContext(): Promise<ContextLoadResult> {
     if (best && best.view) {
       return {
         context: {
-          table: best.table,
-          view: best.view,
+          base: createLarkBaseAdapter(),
+          table: createLarkTableAdapter(best.table),
+          view: createLarkViewAdapter(best.view),
+          notifier: larkNotifier,
+          tableId: best.tableId,
           tableName: best.tableName,
           viewName: best.viewName,
           fieldIds: best.fieldIds,
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { DIM_PROFILES, computeBillableWeight } from "./dimWeight";
+
+const KG_PER_LB = 0.45359237;
+/** 12 in cube: 1728 in³, or 30 cm sides (27 000 cm³) after rounding. */
+const cube = { width: 12, depth: 12, height: 12 };
+
+describe("computeBillableWeight", () => {
+  it("divides cubic inches by 139 and charges whole pounds", () => {
+    const result = computeBillableWeight(cube, 5, DIM_PROFILES["ups-fedex-daily"]);
+
+    // 1728 / 139 = 12.4 → 13 lb; 5 kg = 11.02 → 12 lb.
+    expect(result?.dimWeightLb).toBe(13);
+    expect(result?.dimWeightKg).toBeCloseTo(13 * KG_PER_LB, 10);
+    expect(result?.billableWeightLb).toBe(13);
+    expect(result?.billedOn).toBe("dimensional");
+  });
+
+  it("divides cubic inches by 166 for the retail profile", () => {
+    const result = computeBillableWeight(cube, 5, DIM_PROFILES.retail);
+
+    // 1728 / 166 = 10.4 → 11 lb, below the 12 lb actual.
+    expect(result?.dimWeightLb).toBe(11);
+    expect(result?.billableWeightLb).toBe(12);
+    expect(result?.billableWeightKg).toBeCloseTo(12 * KG_PER_LB, 10);
+    expect(result?.billedOn).toBe("actual");
+  });
+
+  it("divides cubic centimetres by 5000 and charges half kilograms", () => {
+    const result = computeBillableWeight(cube, 5, DIM_PROFILES["air-5000"]);
+
+    // 27 000 / 5000 = 5.4 → 5.5 kg.
+    expect(result?.dimWeightKg).toBe(5.5);
+    expect(result?.billableWeightKg).toBe(5.5);
+    expect(result?.billedOn).toBe("dimensional");
+  });
+
+  it("divides cubic centimetres by 6000", () => {
+    const result = computeBillableWeight(cube, 5, DIM_PROFILES["air-6000"]);
+
+    // 27 000 / 6000 = 4.5 kg, below the 5 kg actual.
+    expect(result?.dimWeightKg).toBe(4.5);
+    expect(result?.billableWeightKg).toBe(5);
+    expect(result?.billedOn).toBe("actual");
+  });
+
+  it("rounds each side before multiplying", () => {
+    const result = computeBillableWeight(
+      { width: 12.4, depth: 11.6, height: 12 },
+      null,
+      DIM_PROFILES["ups-fedex-daily"]
+    );
+
+    expect(result?.dimWeightLb).toBe(13);
+  });
+
+  it("leaves the billable weight empty without an actual weight", () => {
+    const result = computeBillableWeight(cube, null, DIM_PROFILES["air-5000"]);
+
+    expect(result).toMatchObject({
+      dimWeightKg: 5.5,
+      billableWeightKg: null,
+      billableWeightLb: null,
+      billedOn: null,
+    });
+  });
+
+  it("returns null for a missing side", () => {
+    expect(computeBillableWeight({ ...cube, depth: 0 }, 5, DIM_PROFILES.retail)).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { convertInchesToCm } from "../utils/numbers";
+
+export type DimProfileId = "ups-fedex-daily" | "retail" | "air-5000" | "air-6000";
+
+export interface DimProfile {
+  id: DimProfileId;
+  label: string;
+  /** in³/lb for imperial profiles, cm³/kg for metric profiles. */
+  divisor: number;
+  system: "imperial" | "metric";
+}
+
+export const DIM_PROFILES: Record<DimProfileId, DimProfile> = {
+  "ups-fedex-daily": { id: "ups-fedex-daily", label: "UPS / FedEx domestic (139)", divisor: 139, system: "imperial" },
+  retail: { id: "retail", label: "Retail (166)", divisor: 166, system: "imperial" },
+  "air-5000": { id: "air-5000", label: "Air / express (5000)", divisor: 5000, system: "metric" },
+  "air-6000": { id: "air-6000", label: "Air cargo (6000)", divisor: 6000, system: "metric" },
+};
+
+const KG_PER_LB = 0.45359237;
+
+export interface BillableWeightResult {
+  profile: DimProfile;
+  dimWeightKg: number;
+  dimWeightLb: number;
+  billableWeightKg: number | null;
+  billableWeightLb: number | null;
+  /** Which weight the carrier would bill on; `null` when the actual weight is unknown. */
+  billedOn: "actual" | "dimensional" | null;
+}
+
+/**
+ * Dimensional weight of a carton (inches) following carrier rounding: imperial
+ * profiles round sides to the nearest inch and charge whole pounds, metric
+ * profiles round sides to the nearest centimetre and charge half kilograms.
+ */
+export function computeBillableWeight(
+  dims: { width: number; depth: number; height: number },
+  actualWeightKg: number | null,
+  profile: DimProfile
+): BillableWeightResult | null {
+  const sides = [dims.width, dims.depth, dims.height];
+  if (sides.some((value) => !Number.isFinite(value) || value <= 0)) return null;
+
+  let dimWeightKg: number;
+  let dimWeightLb: number;
+  let actualBilled: number | null = null;
+  const actual = actualWeightKg != null && actualWeightKg > 0 ? actualWeightKg : null;
+
+  if (profile.system === "imperial") {
+    const volume = sides.map((value) => Math.round(value)).reduce((acc, value) => acc * value, 1);
+    dimWeightLb = Math.ceil(volume / profile.divisor);
+    dimWeightKg = dimWeightLb * KG_PER_LB;
+    if (actual != null) actualBilled = Math.ceil(actual / KG_PER_LB);
+  } else {
+    const volume = sides
+      .map((value) => Math.round(convertInchesToCm(value)))
+      .reduce((acc, value) => acc * value, 1);
+    dimWeightKg = Math.ceil((volume / profile.divisor) * 2) / 2;
+    dimWeightLb = dimWeightKg / KG_PER_LB;
+    if (actual != null) actualBilled = Math.ceil(actual * 2) / 2;
+  }
+
+  if (actualBilled == null) {
+    return {
+      profile,
+      dimWeightKg,
+      dimWeightLb,
+      billableWeightKg: null,
+      billableWeightLb: null,
+      billedOn: null,
+    };
+  }
+
+  const dimBilled = profile.system === "imperial" ? dimWeightLb : dimWeightKg;
+  const billedOn = dimBilled > actualBilled ? "dimensional" : "actual";
+  const billable = Math.max(dimBilled, actualBilled);
+  return {
+    profile,
+    dimWeightKg,
+    dimWeightLb,
+    billableWeightKg: profile.system === "imperial" ? billable * KG_PER_LB : billable,
+    billableWeightLb: profile.system === "imperial" ? billable : billable / KG_PER_LB,
+    billedOn,
+  };
+}
@@ -0,0 +1,23 @@
+import type { FieldIds } from "../config/fields";
+import { readPluginData, writePluginData } from "../utils/storage";
+
+/** Logical field key → Bitable field id chosen by the user. */
+export type FieldMapping = Partial<Record<keyof FieldIds, string>>;
+
+function storageKey(tableId: string): string {
+  return `sol-manager:field-mapping:${tableId}`;
+}
+
+export async function loadFieldMapping(tableId: string): Promise<FieldMapping> {
+  if (!tableId) return {};
+  const mapping = await readPluginData<FieldMapping>(storageKey(tableId), {});
+  return mapping && typeof mapping === "object" ? mapping : {};
+}
+
+export async function saveFieldMapping(tableId: string, mapping: FieldMapping): Promise<boolean> {
+  const cleaned: FieldMapping = {};
+  for (const [key, fieldId] of Object.entries(mapping) as Array<[keyof FieldIds, string]>) {
+    if (fieldId) cleaned[key] = fieldId;
+  }
+  return writePluginData(storageKey(tableId), cleaned);
+}
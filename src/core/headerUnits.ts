@@ -0,0 +1,139 @@
+import type { FieldIds } from "../config/fields";
+import { formatUnit, type LengthUnit, type WeightUnit } from "../utils/numbers";
+import type { FieldMetaLike } from "../utils/field";
+import { t } from "../i18n";
+import type { TableAdapter } from "./adapter";
+import type { UnitSettings } from "./calculator";
+
+type Unit = LengthUnit | WeightUnit;
+
+const HEADER_UNITS: Record<string, Unit> = {
+  inch: "inch",
+  in: "inch",
+  cm: "cm",
+  mm: "mm",
+  g: "g",
+  kg: "kg",
+  lb: "lb",
+  lbs: "lb",
+};
+
+/** The columns a unit setting applies to, and the units it supports. */
+interface UnitGroup<K extends keyof UnitSettings> {
+  setting: K;
+  keys: Array<keyof FieldIds>;
+  units: ReadonlyArray<UnitSettings[K]>;
+}
+
+type AnyUnitGroup = { [K in keyof UnitSettings]: UnitGroup<K> }[keyof UnitSettings];
+
+const UNIT_GROUPS: AnyUnitGroup[] = [
+  {
+    setting: "itemDimension",
+    keys: ["itemWidth", "itemDepth", "itemHeight"],
+    units: ["inch", "cm", "mm"],
+  },
+  { setting: "itemWeight", keys: ["itemWeight"], units: ["g", "kg", "lb"] },
+  {
+    setting: "cartonDimension",
+    keys: [
+      "innerWidth",
+      "innerDepth",
+      "innerHeight",
+      "masterWidth",
+      "masterDepth",
+      "masterHeight",
+      "innerInternalWidth",
+      "innerInternalDepth",
+      "innerInternalHeight",
+      "masterInternalWidth",
+      "masterInternalDepth",
+      "masterInternalHeight",
+      "palletHeight",
+    ],
+    units: ["inch", "cm"],
+  },
+  { setting: "innerWeight", keys: ["innerWeight"], units: ["lb", "kg"] },
+  { setting: "netWeight", keys: ["netWeight"], units: ["kg", "lb"] },
+];
+
+/** Unit in parentheses at the end of a header, e.g. "Item Weight ( g )" → "g". */
+export function parseHeaderUnit(name: string): Unit | null {
+  const match = /\(\s*([a-z]+)\s*\)\s*$/i.exec(name);
+  return match ? HEADER_UNITS[match[1].toLowerCase()] ?? null : null;
+}
+
+export interface HeaderUnits {
+  /** Panel units, with each setting replaced by the unit its headers state. */
+  units: UnitSettings;
+  /** `fieldIds` without the columns whose header contradicts their group. */
+  fieldIds: FieldIds;
+  messages: string[];
+}
+
+/**
+ * Lets the column headers decide the units: when every labelled column of a
+ * unit setting states the same supported unit, that unit replaces the panel's.
+ * Columns that disagree with the unit in use are dropped for the run, so a
+ * "(kg)" column is never read as grams.
+ */
+export function resolveHeaderUnits(
+  panelUnits: UnitSettings,
+  fieldIds: FieldIds,
+  fieldMetas: FieldMetaLike[]
+): HeaderUnits {
+  const result: HeaderUnits = { units: { ...panelUnits }, fieldIds: { ...fieldIds }, messages: [] };
+  const namesById = new Map(fieldMetas.map((meta) => [meta.id, meta.name]));
+  for (const group of UNIT_GROUPS) {
+    applyUnitGroup(group, fieldIds, namesById, result);
+  }
+  return result;
+}
+
+function applyUnitGroup<K extends keyof UnitSettings>(
+  group: UnitGroup<K>,
+  fieldIds: FieldIds,
+  namesById: Map<string, string>,
+  result: HeaderUnits
+): void {
+  const labelled = group.keys.flatMap((key) => {
+    const name = namesById.get(fieldIds[key]);
+    const unit = name ? parseHeaderUnit(name) : null;
+    return name && unit ? [{ key, name, unit }] : [];
+  });
+  const stated = [...new Set(labelled.map((entry) => entry.unit))];
+  const panel = result.units[group.setting];
+  const headerUnit =
+    stated.length === 1 ? group.units.find((unit) => unit === stated[0]) : undefined;
+  if (headerUnit !== undefined && headerUnit !== panel) {
+    result.units[group.setting] = headerUnit;
+    result.messages.push(
+      t("calc.unitFromHeader", {
+        fields: labelled.map((entry) => entry.name).join(", "),
+        unit: formatUnit(headerUnit),
+        panel: formatUnit(panel),
+      })
+    );
+  }
+  const inUse: Unit = result.units[group.setting];
+  for (const entry of labelled) {
+    if (entry.unit === inUse) continue;
+    result.fieldIds[entry.key] = "";
+    result.messages.push(
+      t("calc.unitConflict", {
+        field: entry.name,
+        unit: formatUnit(entry.unit),
+        expected: formatUnit(inUse),
+      })
+    );
+  }
+}
+
+/** {@link resolveHeaderUnits} for the columns of `table`. */
+export async function loadHeaderUnits(
+  table: TableAdapter,
+  panelUnits: UnitSettings,
+  fieldIds: FieldIds
+): Promise<HeaderUnits> {
+  return resolveHeaderUnits(panelUnits, fieldIds, await table.getFieldMetaList());
+}
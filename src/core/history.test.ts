@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { RecordSnapshot } from "./adapter";
+import type { RecordPlan } from "./calculator";
+import { MAX_HISTORY_RUNS, loadRunHistory, saveRunSnapshot, undoLastRun } from "./history";
+import { createMemoryContext, createMemoryStorage } from "./memoryAdapter";
+import { RECORD_BATCH_SIZE } from "./records";
+import { t } from "../i18n";
+import { setPluginStorage } from "../utils/storage";
+
+const fields = [{ id: "fldWidth", name: "Inner Width (inch)", type: 2 }];
+
+function createBase(
+  id = "tbl1",
+  records: RecordSnapshot[] = [
+    { recordId: "rec1", fields: { fldWidth: 4 } },
+    { recordId: "rec2", fields: {} },
+  ]
+) {
+  return createMemoryContext({ id, name: `Table ${id}`, fields, records });
+}
+
+/** Plans overwriting Inner Width of rec1 and rec2, as a calculation would queue them. */
+function widthPlans(before: Array<unknown>, after: number): RecordPlan[] {
+  return before.map((value, index) => ({
+    recordId: `rec${index + 1}`,
+    label: `#${index + 1}`,
+    changes: [{ key: "innerWidth", fieldId: "fldWidth", before: value, after }],
+  }));
+}
+
+async function applyPlans(base: ReturnType<typeof createBase>, plans: RecordPlan[]) {
+  await saveRunSnapshot(base.context, plans);
+  await base.table.setRecords(
+    plans.map((plan) => ({
+      recordId: plan.recordId,
+      fields: Object.fromEntries(plan.changes.map((change) => [change.fieldId, change.after])),
+    }))
+  );
+}
+
+beforeEach(() => {
+  setPluginStorage(createMemoryStorage());
+});
+
+describe("undoLastRun", () => {
+  it("restores the snapshot and drops it from the history", async () => {
+    const base = createBase();
+    await applyPlans(base, widthPlans([4, null], 9));
+    expect(base.table.records.get("rec1")?.fldWidth).toBe(9);
+
+    const logs: string[] = [];
+    const result = await undoLastRun(base.context, (message) => logs.push(message));
+
+    expect(result?.snapshot.cells).toHaveLength(2);
+    expect(result?.failed).toEqual([]);
+    expect(base.table.records.get("rec1")?.fldWidth).toBe(4);
+    expect(base.table.records.get("rec2")?.fldWidth).toBeNull();
+    expect(await loadRunHistory(base.context)).toEqual([]);
+
+    await undoLastRun(base.context, (message) => logs.push(message));
+    expect(logs[logs.length - 1]).toBe(t("history.nothingToUndo"));
+  });
+
+  it("reports the records it could not restore and keeps only those", async () => {
+    const count = RECORD_BATCH_SIZE + 1;
+    const base = createBase(
+      "tbl1",
+      Array.from({ length: count }, (_, index) => ({
+        recordId: `rec${index + 1}`,
+        fields: { fldWidth: 4 },
+      }))
+    );
+    await applyPlans(base, widthPlans(new Array(count).fill(4), 9));
+    // The last record sits alone in the second batch.
+    base.table.records.delete(`rec${count}`);
+
+    const logs: string[] = [];
+    const result = await undoLastRun(base.context, (message) => logs.push(message));
+
+    expect(result?.failed).toEqual([`#${count}`]);
+    expect(logs).toEqual([
+      t("history.undoPartial", { failed: 1, total: count, records: `#${count}` }),
+    ]);
+    expect(base.table.records.get("rec1")?.fldWidth).toBe(4);
+    const [kept] = await loadRunHistory(base.context);
+    expect(kept.recordCount).toBe(1);
+    expect(kept.labels).toEqual({ [`rec${count}`]: `#${count}` });
+    expect(kept.cells).toEqual([{ recordId: `rec${count}`, fieldId: "fldWidth", value: 4 }]);
+  });
+
+  it("never undoes another user's run", async () => {
+    const base = createBase();
+    base.base.userId = "usr-colleague";
+    await applyPlans(base, widthPlans([4, null], 9));
+
+    base.base.userId = "usr-me";
+    const logs: string[] = [];
+    expect(await undoLastRun(base.context, (message) => logs.push(message))).toBeNull();
+    expect(logs).toEqual([t("history.nothingToUndo")]);
+    expect(base.table.records.get("rec1")?.fldWidth).toBe(9);
+
+    base.base.userId = "usr-colleague";
+    expect(await loadRunHistory(base.context)).toHaveLength(1);
+  });
+
+  it("keeps a separate history per table", async () => {
+    const first = createBase("tbl1");
+    const second = createBase("tbl2");
+    await applyPlans(first, widthPlans([4, null], 9));
+
+    expect(await loadRunHistory(second.context)).toEqual([]);
+    expect(await undoLastRun(second.context, () => {})).toBeNull();
+    expect(await loadRunHistory(first.context)).toHaveLength(1);
+  });
+});
+
+describe("saveRunSnapshot", () => {
+  it("records the previous value of every planned cell", async () => {
+    const base = createBase();
+    const snapshot = await saveRunSnapshot(base.context, [
+      ...widthPlans([4], 9),
+      { recordId: "rec2", label: "#2", changes: [] },
+    ]);
+
+    expect(snapshot?.recordCount).toBe(1);
+    expect(snapshot?.userId).toBe("usr-memory");
+    expect(snapshot?.labels).toEqual({ rec1: "#1" });
+    expect(snapshot?.cells).toEqual([{ recordId: "rec1", fieldId: "fldWidth", value: 4 }]);
+    expect(await saveRunSnapshot(base.context, [])).toBeNull();
+  });
+
+  it(`keeps only the last ${MAX_HISTORY_RUNS} runs`, async () => {
+    const base = createBase();
+    for (let run = 1; run <= MAX_HISTORY_RUNS + 2; run += 1) {
+      await saveRunSnapshot(base.context, widthPlans([run], run + 1));
+    }
+
+    const history = await loadRunHistory(base.context);
+    expect(history).toHaveLength(MAX_HISTORY_RUNS);
+    // The two oldest runs are gone; the newest comes last.
+    expect(history[0].cells[0].value).toBe(3);
+    expect(history[history.length - 1].cells[0].value).toBe(MAX_HISTORY_RUNS + 2);
+  });
+});
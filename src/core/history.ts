@@ -0,0 +1,146 @@
+import type { RecordUpdate } from "./adapter";
+import type { PluginContext } from "./context";
+import type { RecordPlan } from "./calculator";
+import { writeRecords } from "./records";
+import { formatDateTime, t } from "../i18n";
+import { readPluginData, writePluginData } from "../utils/storage";
+
+export const MAX_HISTORY_RUNS = 5;
+
+/**
+ * Plugin storage is shared by everyone in the Base, so each user keeps one
+ * undo stack per table: undo never reverts a colleague's run, and two users
+ * writing at once never overwrite each other's history.
+ */
+function historyKey(tableId: string, userId: string): string {
+  return `sol-manager:undo-history:${tableId}:${userId}`;
+}
+
+async function resolveHistoryKey(context: PluginContext): Promise<string> {
+  return historyKey(context.tableId, await context.base.getUserId());
+}
+
+export interface CellSnapshot {
+  recordId: string;
+  fieldId: string;
+  value: unknown;
+}
+
+export interface RunSnapshot {
+  id: string;
+  createdAt: number;
+  tableId: string;
+  tableName: string;
+  /** Base user who made the run. */
+  userId: string;
+  recordCount: number;
+  /** Record label of every snapshotted record, for reporting failed restores. */
+  labels: Record<string, string>;
+  cells: CellSnapshot[];
+}
+
+export interface UndoResult {
+  snapshot: RunSnapshot;
+  /** Labels of the records that could not be written back. */
+  failed: string[];
+}
+
+/** The current user's runs in the context's table, oldest first. */
+export async function loadRunHistory(context: PluginContext): Promise<RunSnapshot[]> {
+  const history = await readPluginData<RunSnapshot[]>(await resolveHistoryKey(context), []);
+  return Array.isArray(history) ? history : [];
+}
+
+async function saveRunHistory(context: PluginContext, history: RunSnapshot[]): Promise<boolean> {
+  return writePluginData(await resolveHistoryKey(context), history.slice(-MAX_HISTORY_RUNS));
+}
+
+/**
+ * Stores the current value of every cell the plans are about to overwrite.
+ * Only the last {@link MAX_HISTORY_RUNS} runs are kept.
+ */
+export async function saveRunSnapshot(
+  context: PluginContext,
+  plans: RecordPlan[]
+): Promise<RunSnapshot | null> {
+  const cells: CellSnapshot[] = [];
+  const labels: Record<string, string> = {};
+  for (const plan of plans) {
+    for (const change of plan.changes) {
+      cells.push({ recordId: plan.recordId, fieldId: change.fieldId, value: change.before });
+      labels[plan.recordId] = plan.label;
+    }
+  }
+  if (!cells.length) return null;
+
+  const snapshot: RunSnapshot = {
+    id: `${Date.now()}`,
+    createdAt: Date.now(),
+    tableId: context.tableId,
+    tableName: context.tableName,
+    userId: await context.base.getUserId(),
+    recordCount: Object.keys(labels).length,
+    labels,
+    cells,
+  };
+  const history = await loadRunHistory(context);
+  history.push(snapshot);
+  const saved = await saveRunHistory(context, history);
+  return saved ? snapshot : null;
+}
+
+/**
+ * Restores the current user's most recent run in the context's table. Records
+ * that fail to restore are returned and logged by label; the snapshot keeps
+ * only their cells so undo can be retried, and is dropped once all are back.
+ */
+export async function undoLastRun(
+  context: PluginContext,
+  onLog: (message: string) => void
+): Promise<UndoResult | null> {
+  const history = await loadRunHistory(context);
+  const snapshot = history[history.length - 1];
+  if (!snapshot) {
+    onLog(t("history.nothingToUndo"));
+    return null;
+  }
+
+  const updates = new Map<string, RecordUpdate>();
+  for (const cell of snapshot.cells) {
+    const update = updates.get(cell.recordId) ?? { recordId: cell.recordId, fields: {} };
+    update.fields[cell.fieldId] = cell.value ?? null;
+    updates.set(cell.recordId, update);
+  }
+
+  const { failedRecordIds } = await writeRecords(context.table, [...updates.values()]);
+  const failedIds = new Set(failedRecordIds);
+  const failed = failedRecordIds.map((recordId) => snapshot.labels[recordId] ?? recordId);
+  history.pop();
+  if (failed.length) {
+    history.push({
+      ...snapshot,
+      recordCount: failed.length,
+      labels: Object.fromEntries(
+        Object.entries(snapshot.labels).filter(([recordId]) => failedIds.has(recordId))
+      ),
+      cells: snapshot.cells.filter((cell) => failedIds.has(cell.recordId)),
+    });
+    onLog(
+      t("history.undoPartial", {
+        failed: failed.length,
+        total: updates.size,
+        records: failed.join(", "),
+      })
+    );
+  } else {
+    onLog(
+      t("history.undone", {
+        time: formatDateTime(snapshot.createdAt),
+        records: snapshot.recordCount,
+        cells: snapshot.cells.length,
+      })
+    );
+  }
+  await saveRunHistory(context, history);
+  return { snapshot, failed };
+}
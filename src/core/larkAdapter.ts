@@ -0,0 +1,150 @@
+import {
+  bitable,
+  ToastType,
+  type IBase,
+  type IGridView,
+  type IRecord,
+  type ITable,
+  type IView,
+} from "@lark-base-open/js-sdk";
+import type {
+  BaseAdapter,
+  EventHandler,
+  NoticeVariant,
+  Notifier,
+  RecordSnapshot,
+  TableAdapter,
+  Unsubscribe,
+  ViewAdapter,
+} from "./adapter";
+import { chunk } from "./records";
+import { t } from "../i18n";
+import type { FieldMetaLike } from "../utils/field";
+import { logError } from "../utils/logger";
+
+/** Upper bound of `getRecordsByIds` in the Bitable SDK. */
+const RECORDS_BY_IDS_LIMIT = 1000;
+
+const TOAST_TYPES: Record<NoticeVariant, ToastType> = {
+  info: ToastType.info,
+  success: ToastType.success,
+  warning: ToastType.warning,
+  error: ToastType.error,
+};
+
+/**
+ * Binds an SDK event method of `target`. A host without the method is logged
+ * and gets a no-op subscription, so callers never need to check for it.
+ */
+function subscriber<T extends object, E>(target: T, method: Extract<keyof T, `on${string}`>) {
+  return (handler: EventHandler<E>): Unsubscribe => {
+    const fn: unknown = target[method];
+    if (typeof fn !== "function") {
+      logError("adapter:subscribe", t("error.sdkEvent", { method }));
+      return () => {};
+    }
+    const disposer: unknown = fn.call(target, handler);
+    return typeof disposer === "function" ? () => disposer() : () => {};
+  };
+}
+
+/**
+ * Wraps an SDK table. Older SDKs without `getRecordsByIds` fall back to one
+ * `getRecordById` call per record.
+ */
+export function createLarkTableAdapter(table: ITable): TableAdapter {
+  return {
+    id: table.id ?? "",
+    getName: async () => (await table.getName()) ?? "",
+    getFieldMetaList: async (): Promise<FieldMetaLike[]> => (await table.getFieldMetaList()) ?? [],
+    async getRecords({ viewId, pageSize, pageToken }) {
+      if (typeof table.getRecords !== "function") {
+        throw new Error(t("error.sdkGetRecords"));
+      }
+      const response = await table.getRecords({ viewId, pageSize, pageToken });
+      return {
+        records: (response?.records ?? []).map((record: IRecord) => ({
+          recordId: record.recordId,
+          fields: record.fields ?? {},
+        })),
+        hasMore: Boolean(response?.hasMore),
+        pageToken: response?.pageToken,
+      };
+    },
+    async getRecordsByIds(recordIds) {
+      const records: RecordSnapshot[] = [];
+      if (typeof table.getRecordsByIds === "function") {
+        for (const ids of chunk(recordIds, RECORDS_BY_IDS_LIMIT)) {
+          const values = await table.getRecordsByIds(ids);
+          ids.forEach((recordId, index) => {
+            records.push({ recordId, fields: values?.[index]?.fields ?? {} });
+          });
+        }
+        return records;
+      }
+      for (const recordId of recordIds) {
+        const record = await table.getRecordById(recordId);
+        records.push({ recordId, fields: record?.fields ?? {} });
+      }
+      return records;
+    },
+    async setRecords(updates) {
+      // Cells hold the values the engine computed; the SDK types them as IOpenCellValue.
+      await table.setRecords(updates as IRecord[]);
+    },
+    onRecordModify: subscriber(table, "onRecordModify"),
+    onRecordAdd: subscriber(table, "onRecordAdd"),
+    onRecordDelete: subscriber(table, "onRecordDelete"),
+    onFieldAdd: subscriber(table, "onFieldAdd"),
+    onFieldModify: subscriber(table, "onFieldModify"),
+    onFieldDelete: subscriber(table, "onFieldDelete"),
+  };
+}
+
+export function createLarkBaseAdapter(base: IBase = bitable.base): BaseAdapter {
+  return {
+    async getTableById(tableId) {
+      try {
+        const table = await base.getTableById(tableId);
+        return table ? createLarkTableAdapter(table) : null;
+      } catch (err) {
+        logError("adapter:getTableById", err);
+        return null;
+      }
+    },
+    async getUserId() {
+      try {
+        return (await bitable.bridge.getBaseUserId()) ?? "";
+      } catch (err) {
+        logError("adapter:getUserId", err);
+        return "";
+      }
+    },
+    onSelectionChange: subscriber(base, "onSelectionChange"),
+    onTableAdd: subscriber(base, "onTableAdd"),
+    onTableDelete: subscriber(base, "onTableDelete"),
+  };
+}
+
+const toIdList = (list: unknown): string[] =>
+  Array.isArray(list) ? list.filter((id): id is string => typeof id === "string" && !!id) : [];
+
+/** Only grid views expose the selected records. */
+const isGridView = (view: IView): view is IGridView =>
+  typeof (view as Partial<IGridView>).getSelectedRecordIdList === "function";
+
+export function createLarkViewAdapter(view: IView): ViewAdapter {
+  return {
+    id: view?.id ?? "",
+    getName: async () => (await view?.getName?.()) ?? "",
+    getSelectedRecordIdList: async () =>
+      isGridView(view) ? toIdList(await view.getSelectedRecordIdList()) : [],
+    getVisibleRecordIdList: async () => toIdList(await view?.getVisibleRecordIdList?.()),
+  };
+}
+
+export const larkNotifier: Notifier = {
+  async notify(message, variant) {
+    await bitable.ui.showToast({ toastType: TOAST_TYPES[variant], message });
+  },
+};
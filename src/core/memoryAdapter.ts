@@ -0,0 +1,246 @@
+import type {
+  AdapterEvent,
+  BaseAdapter,
+  EventHandler,
+  NoticeVariant,
+  Notifier,
+  RecordIdEvent,
+  RecordModifyEvent,
+  RecordSnapshot,
+  RecordUpdate,
+  SelectionEvent,
+  TableAdapter,
+  Unsubscribe,
+  ViewAdapter,
+} from "./adapter";
+import { buildFieldMap, type PluginContext } from "./context";
+import type { FieldMapping } from "./fieldMapping";
+import { t } from "../i18n";
+import type { FieldMetaLike } from "../utils/field";
+import type { PluginStorage } from "../utils/storage";
+
+/**
+ * In-memory stand-ins for the Bitable base, table, view, toasts and plugin
+ * storage, so the packing engine runs without Feishu (scripts, tests).
+ */
+
+export interface MemoryTable extends TableAdapter {
+  /** Current cell values by record id, in insertion order. */
+  readonly records: Map<string, Record<string, unknown>>;
+  /** Every `setRecords` call, in order. */
+  readonly writes: RecordUpdate[][];
+  /** A user edit: updates the cells and raises `onRecordModify`. */
+  edit(recordId: string, fields: Record<string, unknown>): void;
+}
+
+export interface MemoryBase extends BaseAdapter {
+  readonly tables: Map<string, MemoryTable>;
+  /** Reported by `getUserId`; switch it to act as another user. */
+  userId: string;
+  addTable(table: MemoryTable): void;
+  deleteTable(tableId: string): void;
+  /** Moves the selection, e.g. to another view; raises `onSelectionChange`. */
+  select(selection: Partial<SelectionEvent["data"]>): void;
+}
+
+export interface MemoryView extends ViewAdapter {
+  /** Record ids reported as selected; empty means nothing is selected. */
+  selected: string[];
+}
+
+export interface MemoryNotifier extends Notifier {
+  readonly notices: Array<{ message: string; variant: NoticeVariant }>;
+}
+
+export interface MemoryTableOptions {
+  id?: string;
+  name?: string;
+  fields: FieldMetaLike[];
+  records?: RecordSnapshot[];
+}
+
+function createEmitter<E>() {
+  const handlers = new Set<EventHandler<E>>();
+  return {
+    on(handler: EventHandler<E>): Unsubscribe {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    emit(event: E) {
+      for (const handler of [...handlers]) handler(event);
+    },
+  };
+}
+
+const snapshot = (recordId: string, fields: Record<string, unknown> | undefined): RecordSnapshot => ({
+  recordId,
+  fields: { ...(fields ?? {}) },
+});
+
+export function createMemoryTable(options: MemoryTableOptions): MemoryTable {
+  const records = new Map<string, Record<string, unknown>>();
+  for (const record of options.records ?? []) {
+    records.set(record.recordId, { ...record.fields });
+  }
+  const writes: RecordUpdate[][] = [];
+  const recordModify = createEmitter<RecordModifyEvent>();
+  const recordAdd = createEmitter<RecordIdEvent>();
+  const recordDelete = createEmitter<RecordIdEvent>();
+  const fieldAdd = createEmitter<AdapterEvent>();
+  const fieldModify = createEmitter<AdapterEvent>();
+  const fieldDelete = createEmitter<AdapterEvent>();
+
+  const update = (recordId: string, fields: Record<string, unknown>) => {
+    records.set(recordId, { ...records.get(recordId), ...fields });
+    recordModify.emit({ data: { recordId, fieldIds: Object.keys(fields) } });
+  };
+
+  return {
+    id: options.id ?? "tbl-memory",
+    records,
+    writes,
+    getName: async () => options.name ?? "Memory Table",
+    getFieldMetaList: async () => options.fields.map((meta) => ({ ...meta })),
+    async getRecords({ pageSize, pageToken }) {
+      const start = pageToken ? Number(pageToken) : 0;
+      const all = [...records.entries()];
+      const page = all.slice(start, start + pageSize);
+      const next = start + page.length;
+      return {
+        records: page.map(([recordId, fields]) => snapshot(recordId, fields)),
+        hasMore: next < all.length,
+        pageToken: next < all.length ? String(next) : undefined,
+      };
+    },
+    async getRecordsByIds(recordIds) {
+      return recordIds.map((recordId) => snapshot(recordId, records.get(recordId)));
+    },
+    async setRecords(updates) {
+      const missing = updates.find((update) => !records.has(update.recordId));
+      if (missing) {
+        throw new Error(t("memory.recordMissing", { recordId: missing.recordId }));
+      }
+      writes.push(updates.map((entry) => snapshot(entry.recordId, entry.fields)));
+      for (const { recordId, fields } of updates) {
+        update(recordId, fields);
+      }
+    },
+    edit(recordId, fields) {
+      update(recordId, fields);
+    },
+    onRecordModify: recordModify.on,
+    onRecordAdd: recordAdd.on,
+    onRecordDelete: recordDelete.on,
+    onFieldAdd: fieldAdd.on,
+    onFieldModify: fieldModify.on,
+    onFieldDelete: fieldDelete.on,
+  };
+}
+
+export function createMemoryBase(tables: MemoryTable[] = [], userId = "usr-memory"): MemoryBase {
+  const byId = new Map(tables.map((table) => [table.id, table]));
+  const selectionChange = createEmitter<SelectionEvent>();
+  const tableAdd = createEmitter<AdapterEvent>();
+  const tableDelete = createEmitter<AdapterEvent>();
+
+  const base: MemoryBase = {
+    tables: byId,
+    userId,
+    getTableById: async (tableId) => byId.get(tableId) ?? null,
+    getUserId: async () => base.userId,
+    addTable(table) {
+      byId.set(table.id, table);
+      tableAdd.emit({ data: table.id });
+    },
+    deleteTable(tableId) {
+      if (byId.delete(tableId)) tableDelete.emit({ data: tableId });
+    },
+    select(selection) {
+      selectionChange.emit({
+        data: { tableId: null, viewId: null, recordId: null, fieldId: null, ...selection },
+      });
+    },
+    onSelectionChange: selectionChange.on,
+    onTableAdd: tableAdd.on,
+    onTableDelete: tableDelete.on,
+  };
+  return base;
+}
+
+/** A view showing every record of the table in insertion order. */
+export function createMemoryView(
+  table: MemoryTable,
+  options: { id?: string; name?: string; selected?: string[] } = {}
+): MemoryView {
+  const view: MemoryView = {
+    id: options.id ?? "vew-memory",
+    selected: options.selected ?? [],
+    getName: async () => options.name ?? "Memory View",
+    getSelectedRecordIdList: async () => [...view.selected],
+    getVisibleRecordIdList: async () => [...table.records.keys()],
+  };
+  return view;
+}
+
+export function createMemoryNotifier(): MemoryNotifier {
+  const notices: MemoryNotifier["notices"] = [];
+  return {
+    notices,
+    async notify(message, variant) {
+      notices.push({ message, variant });
+    },
+  };
+}
+
+/** Plugin storage kept in a Map; install it with `setPluginStorage`. */
+export function createMemoryStorage(): PluginStorage & { readonly data: Map<string, unknown> } {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    getData: async <T>(key: string) => data.get(key) as T | undefined,
+    async setData<T>(key: string, value: T) {
+      data.set(key, structuredClone(value));
+      return true;
+    },
+  };
+}
+
+/**
+ * Builds a complete headless context: the fields are matched by display name
+ * (or `mapping`) exactly like in the sidebar.
+ */
+export function createMemoryContext(
+  options: MemoryTableOptions & { selected?: string[]; mapping?: FieldMapping }
+): {
+  context: PluginContext;
+  base: MemoryBase;
+  table: MemoryTable;
+  view: MemoryView;
+  notifier: MemoryNotifier;
+  missingFields: string[];
+} {
+  const table = createMemoryTable(options);
+  const base = createMemoryBase([table]);
+  const view = createMemoryView(table, { selected: options.selected });
+  const notifier = createMemoryNotifier();
+  const { fieldIds, missingFields } = buildFieldMap(options.fields, options.mapping);
+  return {
+    context: {
+      base,
+      table,
+      view,
+      notifier,
+      tableId: table.id,
+      tableName: options.name ?? "Memory Table",
+      viewName: "Memory View",
+      fieldIds,
+    },
+    base,
+    table,
+    view,
+    notifier,
+    missingFields,
+  };
+}
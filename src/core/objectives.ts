@@ -0,0 +1,152 @@
+import type { ArrangementResult } from "./arrangement";
+import { planPalletLayer, type PalletSpec } from "./pallet";
+import { convertInchesToCm } from "../utils/numbers";
+import { t } from "../i18n";
+
+export type ObjectiveId = "volume" | "surface" | "cubic" | "height" | "palletFit";
+
+/** Ranks arrangement candidates; a lower score is better. */
+export interface ArrangementObjective {
+  id: ObjectiveId;
+  /** Name shown in the log, in the current language. */
+  readonly label: string;
+  score: (candidate: ArrangementResult) => number;
+}
+
+const volumeObjective: ArrangementObjective = {
+  id: "volume",
+  get label() {
+    return t("objective.volume");
+  },
+  score: (candidate) => candidate.cubeFeet,
+};
+
+/** Board area of the six faces in square feet, flaps ignored. */
+const surfaceObjective: ArrangementObjective = {
+  id: "surface",
+  get label() {
+    return t("objective.surface");
+  },
+  score: ({ width, depth, height }) =>
+    (2 * (width * depth + width * height + depth * height)) / 144,
+};
+
+/** Longest over shortest side; 1 is a perfect cube. */
+const cubicObjective: ArrangementObjective = {
+  id: "cubic",
+  get label() {
+    return t("objective.cubic");
+  },
+  score: ({ width, depth, height }) =>
+    Math.max(width, depth, height) / Math.min(width, depth, height),
+};
+
+const heightObjective: ArrangementObjective = {
+  id: "height",
+  get label() {
+    return t("objective.height");
+  },
+  score: (candidate) => candidate.height,
+};
+
+/**
+ * Share of the pallet deck left uncovered by one layer of upright cartons;
+ * cartons that don't fit on the deck at all score Infinity.
+ */
+function createPalletFitObjective(spec: PalletSpec): ArrangementObjective {
+  const deckArea = spec.lengthCm * spec.widthCm;
+  return {
+    id: "palletFit",
+    get label() {
+      return t("objective.palletFit", { pallet: spec.type });
+    },
+    score: ({ width, depth }) => {
+      const widthCm = convertInchesToCm(width);
+      const depthCm = convertInchesToCm(depth);
+      const cartons = planPalletLayer(spec.lengthCm, spec.widthCm, widthCm, depthCm).length;
+      if (!cartons) return Infinity;
+      return 1 - (cartons * widthCm * depthCm) / deckArea;
+    },
+  };
+}
+
+/** Applied in order after the selected objective when scores tie. */
+const TIE_BREAKERS: ArrangementObjective[] = [
+  volumeObjective,
+  surfaceObjective,
+  heightObjective,
+  cubicObjective,
+];
+
+export const DEFAULT_OBJECTIVE = volumeObjective;
+
+/**
+ * Resolves a panel selection. Pallet fit needs a footprint and returns null
+ * without one so the caller can fall back and say so.
+ */
+export function createObjective(
+  id: ObjectiveId,
+  pallet: PalletSpec | null
+): ArrangementObjective | null {
+  switch (id) {
+    case "surface":
+      return surfaceObjective;
+    case "cubic":
+      return cubicObjective;
+    case "height":
+      return heightObjective;
+    case "palletFit":
+      return pallet ? createPalletFitObjective(pallet) : null;
+    default:
+      return volumeObjective;
+  }
+}
+
+export interface ResolvedObjectives {
+  inner: ArrangementObjective;
+  master: ArrangementObjective;
+  /** Pallet fit was asked for without a pallet and minimum volume is used instead. */
+  fellBack: boolean;
+}
+
+/**
+ * Objectives for the inner and master search. Inner cartons never go on a
+ * pallet directly, so pallet fit only ranks the master.
+ */
+export function resolveObjectives(
+  id: ObjectiveId,
+  pallet: PalletSpec | null
+): ResolvedObjectives {
+  const master = createObjective(id, pallet);
+  if (!master) {
+    return { inner: DEFAULT_OBJECTIVE, master: DEFAULT_OBJECTIVE, fellBack: true };
+  }
+  return {
+    inner: master.id === "palletFit" ? DEFAULT_OBJECTIVE : master,
+    master,
+    fellBack: false,
+  };
+}
+
+function isSameScore(a: number, b: number): boolean {
+  if (a === b) return true;
+  return Math.abs(a - b) <= 1e-9 * Math.max(Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Orders candidates by the objective, then by the composite tie-breaker
+ * (volume, surface, height, cubic). Returns 0 for a full tie so a stable
+ * sort keeps the search order, which puts the unrotated item first.
+ */
+export function compareCandidates(
+  objective: ArrangementObjective,
+  a: ArrangementResult,
+  b: ArrangementResult
+): number {
+  for (const current of [objective, ...TIE_BREAKERS.filter(({ id }) => id !== objective.id)]) {
+    const scoreA = current.score(a);
+    const scoreB = current.score(b);
+    if (!isSameScore(scoreA, scoreB)) return scoreA < scoreB ? -1 : 1;
+  }
+  return 0;
+}
@@ -0,0 +1,148 @@
+import type { ArrangementInput } from "./arrangement";
+import { convertLengthToInches } from "../utils/numbers";
+import { readPluginData, writePluginData } from "../utils/storage";
+import { t } from "../i18n";
+
+const STORAGE_KEY = "sol-manager:packaging-materials";
+const SQUARE_METRES_PER_SQUARE_INCH = 0.00064516;
+
+export type TareMode = "fixed" | "area";
+
+export interface PackagingMaterial {
+  /** Built-ins keep their original option values ("Box", "Poly Bag") as ids. */
+  id: string;
+  name: string;
+  tareMode: TareMode;
+  /** Grams per carton for `fixed`, grams per m² of carton surface for `area`. */
+  tare: number;
+  /** Wraps tightly around the product, so the inner buffer is not added. */
+  fitsProduct: boolean;
+  /** Board thickness; external size = internal size + 2 × wall on each axis. */
+  wallThicknessMm: number;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_MATERIALS: PackagingMaterial[] = [
+  // Box predates wall thickness; its walls are assumed to be part of the buffer.
+  {
+    id: "Box",
+    name: "Box",
+    tareMode: "fixed",
+    tare: 100,
+    fitsProduct: false,
+    wallThicknessMm: 0,
+    builtIn: true,
+  },
+  {
+    id: "Poly Bag",
+    name: "Poly Bag",
+    tareMode: "fixed",
+    tare: 0,
+    fitsProduct: true,
+    wallThicknessMm: 0,
+    builtIn: true,
+  },
+  {
+    id: "b-flute-3ply",
+    name: "B-flute 3-ply",
+    tareMode: "area",
+    tare: 500,
+    fitsProduct: false,
+    wallThicknessMm: 3,
+    builtIn: true,
+  },
+  {
+    id: "bc-flute-5ply",
+    name: "BC-flute 5-ply",
+    tareMode: "area",
+    tare: 800,
+    fitsProduct: false,
+    wallThicknessMm: 6.5,
+    builtIn: true,
+  },
+];
+
+function isMaterial(value: unknown): value is PackagingMaterial {
+  const entry = value as PackagingMaterial | null;
+  return (
+    !!entry &&
+    typeof entry.id === "string" &&
+    typeof entry.name === "string" &&
+    (entry.tareMode === "fixed" || entry.tareMode === "area") &&
+    Number.isFinite(entry.tare)
+  );
+}
+
+/** Built-in materials followed by the ones users added in this Base. */
+export async function loadPackagingMaterials(): Promise<PackagingMaterial[]> {
+  const stored = await readPluginData<PackagingMaterial[]>(STORAGE_KEY, []);
+  const custom = Array.isArray(stored) ? stored.filter(isMaterial) : [];
+  return [
+    ...BUILT_IN_MATERIALS,
+    ...custom.map((entry) => ({
+      ...entry,
+      fitsProduct: Boolean(entry.fitsProduct),
+      wallThicknessMm: Number.isFinite(entry.wallThicknessMm) ? entry.wallThicknessMm : 0,
+      builtIn: false,
+    })),
+  ];
+}
+
+/** Persists the user-added entries; built-ins are never stored. */
+export async function savePackagingMaterials(materials: PackagingMaterial[]): Promise<boolean> {
+  const custom = materials
+    .filter((entry) => !entry.builtIn)
+    .map(({ id, name, tareMode, tare, fitsProduct, wallThicknessMm }) => ({
+      id,
+      name,
+      tareMode,
+      tare,
+      fitsProduct,
+      wallThicknessMm,
+    }));
+  return writePluginData(STORAGE_KEY, custom);
+}
+
+/** Outside area of the six faces of a carton (inches) in m², flaps ignored. */
+export function computeSurfaceSquareMetres({ width, depth, height }: ArrangementInput): number {
+  return 2 * (width * depth + width * height + depth * height) * SQUARE_METRES_PER_SQUARE_INCH;
+}
+
+/**
+ * Empty weight of one carton in grams. Area-based materials need the carton
+ * size and weigh 0 without it.
+ */
+export function computeTareGrams(
+  material: PackagingMaterial | null,
+  carton: ArrangementInput | null
+): number {
+  if (!material || !(material.tare > 0)) return 0;
+  if (material.tareMode === "fixed") return material.tare;
+  return carton ? computeSurfaceSquareMetres(carton) * material.tare : 0;
+}
+
+/** Catalogue entry whose name (or id) matches `text`, ignoring case and surrounding spaces. */
+export function findPackagingMaterial(
+  materials: PackagingMaterial[],
+  text: string
+): PackagingMaterial | null {
+  const wanted = text.trim().toLowerCase();
+  if (!wanted) return null;
+  return (
+    materials.find((material) => material.name.trim().toLowerCase() === wanted) ??
+    materials.find((material) => material.id.toLowerCase() === wanted) ??
+    null
+  );
+}
+
+export function getWallInches(material: PackagingMaterial | null): number {
+  return material && material.wallThicknessMm > 0
+    ? convertLengthToInches(material.wallThicknessMm, "mm")
+    : 0;
+}
+
+export function describeTare(material: PackagingMaterial): string {
+  return t(material.tareMode === "fixed" ? "packaging.tareFixed" : "packaging.tareArea", {
+    tare: material.tare,
+  });
+}
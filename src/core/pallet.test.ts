@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  PALLET_SPECS,
+  computePalletPlan,
+  planPalletLayer,
+  type LayerBox,
+  type PalletOptions,
+} from "./pallet";
+
+const CM = 1 / 2.54;
+
+/** True when no two boxes share floor area and none overhangs the pallet. */
+function isValidLayer(boxes: LayerBox[], length: number, width: number): boolean {
+  const inside = boxes.every(
+    (box) => box.x >= 0 && box.y >= 0 && box.x + box.length <= length && box.y + box.width <= width
+  );
+  const overlaps = boxes.some((a, i) =>
+    boxes
+      .slice(i + 1)
+      .some(
+        (b) =>
+          a.x < b.x + b.length && b.x < a.x + a.length && a.y < b.y + b.width && b.y < a.y + a.width
+      )
+  );
+  return inside && !overlaps;
+}
+
+describe("planPalletLayer", () => {
+  it("fills the pallet with one orientation when that is densest", () => {
+    const layer = planPalletLayer(120, 80, 40, 30);
+
+    expect(layer).toHaveLength(8);
+    expect(isValidLayer(layer, 120, 80)).toBe(true);
+  });
+
+  it("turns the cartons of the leftover strip", () => {
+    // One orientation alone fits 2 × 3 = 6; a turned strip adds a seventh.
+    const layer = planPalletLayer(100, 100, 40, 30);
+
+    expect(layer).toHaveLength(7);
+    expect(isValidLayer(layer, 100, 100)).toBe(true);
+  });
+
+  it("returns no boxes when the carton is larger than the pallet", () => {
+    expect(planPalletLayer(120, 80, 130, 90)).toEqual([]);
+  });
+});
+
+describe("computePalletPlan", () => {
+  const options: PalletOptions = { spec: PALLET_SPECS.EUR, maxHeightCm: 150, maxWeightKg: 1000 };
+  const carton = { width: 40 * CM, depth: 30 * CM, height: 25.4 * CM, grossWeightKg: 10 };
+
+  it("stacks complete layers up to the height cap", () => {
+    const plan = computePalletPlan(carton, options);
+
+    // (150 - 14.4) / 25.4 → 5 layers of 8.
+    expect(plan).toMatchObject({
+      cartonsPerLayer: 8,
+      layers: 5,
+      cartonsPerPallet: 40,
+      limitedBy: "height",
+    });
+    expect(plan?.totalHeightCm).toBeCloseTo(141.4, 6);
+    expect(plan?.totalWeightKg).toBeCloseTo(425, 6);
+  });
+
+  it("drops layers to stay under the weight cap, pallet included", () => {
+    const plan = computePalletPlan({ ...carton, grossWeightKg: 50 }, options);
+
+    // (1000 - 25) / (8 × 50) → 2 layers.
+    expect(plan).toMatchObject({ layers: 2, cartonsPerPallet: 16, limitedBy: "weight" });
+    expect(plan?.totalWeightKg).toBeCloseTo(825, 6);
+  });
+
+  it("ignores the weight cap when the gross weight is unknown", () => {
+    const plan = computePalletPlan({ ...carton, grossWeightKg: null }, options);
+
+    expect(plan?.layers).toBe(5);
+    expect(plan?.totalWeightKg).toBeNull();
+  });
+
+  it("returns null when no carton fits on the pallet", () => {
+    expect(computePalletPlan({ ...carton, width: 0 }, options)).toBeNull();
+    expect(computePalletPlan({ ...carton, width: 130 * CM, depth: 90 * CM }, options)).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { convertInchesToCm } from "../utils/numbers";
+
+export type PalletType = "GMA" | "EUR" | "custom";
+
+export interface PalletSpec {
+  type: PalletType;
+  lengthCm: number;
+  widthCm: number;
+  deckHeightCm: number;
+  weightKg: number;
+}
+
+/** Footprint, deck height and empty weight of common pallets. */
+export const PALLET_SPECS: Record<Exclude<PalletType, "custom">, PalletSpec> = {
+  GMA: { type: "GMA", lengthCm: 121.92, widthCm: 101.6, deckHeightCm: 13.97, weightKg: 20 },
+  EUR: { type: "EUR", lengthCm: 120, widthCm: 80, deckHeightCm: 14.4, weightKg: 25 },
+};
+
+export interface PalletOptions {
+  spec: PalletSpec;
+  /** Maximum height of the built pallet including the deck. */
+  maxHeightCm: number;
+  /** Maximum weight of the built pallet including the pallet itself. */
+  maxWeightKg: number;
+}
+
+export interface LayerBox {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+export interface PalletPlan {
+  spec: PalletSpec;
+  cartonsPerLayer: number;
+  layers: number;
+  cartonsPerPallet: number;
+  totalHeightCm: number;
+  totalWeightKg: number | null;
+  limitedBy: "height" | "weight";
+  /** Top-down positions of the cartons in one layer, in centimetres. */
+  layer: LayerBox[];
+}
+
+export interface PalletCartonInput {
+  width: number;
+  depth: number;
+  height: number;
+  grossWeightKg: number | null;
+}
+
+function fitCount(space: number, size: number): number {
+  if (!(size > 0)) return 0;
+  return Math.floor(space / size + 1e-9);
+}
+
+function fillBlock(
+  x0: number,
+  y0: number,
+  spanLength: number,
+  spanWidth: number,
+  boxLength: number,
+  boxWidth: number
+): LayerBox[] {
+  const boxes: LayerBox[] = [];
+  const columns = fitCount(spanLength, boxLength);
+  const rows = fitCount(spanWidth, boxWidth);
+  for (let i = 0; i < columns; i += 1) {
+    for (let j = 0; j < rows; j += 1) {
+      boxes.push({
+        x: x0 + i * boxLength,
+        y: y0 + j * boxWidth,
+        length: boxLength,
+        width: boxWidth,
+      });
+    }
+  }
+  return boxes;
+}
+
+/**
+ * Finds the densest two-block layer: a block of cartons in one floor
+ * orientation, with the leftover strip (along either pallet side) filled by
+ * cartons turned 90°. Cartons never overhang the pallet.
+ */
+export function planPalletLayer(
+  palletLength: number,
+  palletWidth: number,
+  cartonWidth: number,
+  cartonDepth: number
+): LayerBox[] {
+  let best: LayerBox[] = [];
+  const orientations: Array<[number, number]> = [
+    [cartonWidth, cartonDepth],
+    [cartonDepth, cartonWidth],
+  ];
+
+  for (const [a, b] of orientations) {
+    for (let i = 0; i <= fitCount(palletLength, a); i += 1) {
+      const main = fillBlock(0, 0, i * a, palletWidth, a, b);
+      const rest = fillBlock(i * a, 0, palletLength - i * a, palletWidth, b, a);
+      if (main.length + rest.length > best.length) best = [...main, ...rest];
+    }
+    for (let j = 0; j <= fitCount(palletWidth, b); j += 1) {
+      const main = fillBlock(0, 0, palletLength, j * b, a, b);
+      const rest = fillBlock(0, j * b, palletLength, palletWidth - j * b, b, a);
+      if (main.length + rest.length > best.length) best = [...main, ...rest];
+    }
+  }
+  return best;
+}
+
+/**
+ * Builds a pallet of upright master cartons (dimensions in inches) within the
+ * configured height and weight caps. Only complete layers are stacked.
+ */
+export function computePalletPlan(
+  carton: PalletCartonInput,
+  options: PalletOptions
+): PalletPlan | null {
+  const { spec, maxHeightCm, maxWeightKg } = options;
+  const widthCm = convertInchesToCm(carton.width);
+  const depthCm = convertInchesToCm(carton.depth);
+  const heightCm = convertInchesToCm(carton.height);
+  if ([widthCm, depthCm, heightCm].some((value) => !(value > 0))) return null;
+
+  const layer = planPalletLayer(spec.lengthCm, spec.widthCm, widthCm, depthCm);
+  const cartonsPerLayer = layer.length;
+  if (!cartonsPerLayer) return null;
+
+  const layersByHeight = fitCount(maxHeightCm - spec.deckHeightCm, heightCm);
+  const grossWeightKg =
+    carton.grossWeightKg != null && carton.grossWeightKg > 0 ? carton.grossWeightKg : null;
+  const layersByWeight =
+    grossWeightKg != null
+      ? Math.floor((maxWeightKg - spec.weightKg) / (cartonsPerLayer * grossWeightKg))
+      : null;
+  const layers = Math.max(
+    0,
+    layersByWeight != null ? Math.min(layersByHeight, layersByWeight) : layersByHeight
+  );
+  const cartonsPerPallet = cartonsPerLayer * layers;
+
+  return {
+    spec,
+    cartonsPerLayer,
+    layers,
+    cartonsPerPallet,
+    totalHeightCm: spec.deckHeightCm + layers * heightCm,
+    totalWeightKg: grossWeightKg != null ? spec.weightKg + cartonsPerPallet * grossWeightKg : null,
+    limitedBy: layersByWeight != null && layersByWeight < layersByHeight ? "weight" : "height",
+    layer,
+  };
+}
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryStorage } from "./memoryAdapter";
+import { loadPresets, savePresets } from "./presets";
+import { setPluginStorage, writePluginData } from "../utils/storage";
+
+beforeEach(() => {
+  setPluginStorage(createMemoryStorage());
+});
+
+describe("presets", () => {
+  it("round-trips presets sorted by name", async () => {
+    await savePresets([
+      { id: "b", name: "Walmart DC", values: { innerBuffer: "0.6", maxSide: "" } },
+      { id: "a", name: "Target import", values: { bufferUnit: "inch" } },
+    ]);
+
+    const presets = await loadPresets();
+    expect(presets.map((preset) => preset.name)).toEqual(["Target import", "Walmart DC"]);
+    expect(presets[1].values).toEqual({ innerBuffer: "0.6", maxSide: "" });
+  });
+
+  it("drops malformed entries and values", async () => {
+    await writePluginData("sol-manager:calculation-presets", [
+      { id: "a", name: "Kept", values: { innerBuffer: "1", masterBuffer: 2 } },
+      { id: "b", values: {} },
+      null,
+    ]);
+
+    expect(await loadPresets()).toEqual([{ id: "a", name: "Kept", values: { innerBuffer: "1" } }]);
+  });
+});
@@ -0,0 +1,55 @@
+import { readPluginData, writePluginData } from "../utils/storage";
+
+const STORAGE_KEY = "sol-manager:calculation-presets";
+
+/**
+ * Panel inputs by element id, as entered: number boxes stay text so an empty
+ * "no limit" box round-trips, selects keep their option value (packaging by
+ * material id).
+ */
+export type PresetValues = Record<string, string>;
+
+/** Named set of calculation settings, e.g. one per customer. */
+export interface CalculationPreset {
+  id: string;
+  name: string;
+  values: PresetValues;
+}
+
+function isPreset(value: unknown): value is CalculationPreset {
+  const entry = value as CalculationPreset | null;
+  return (
+    !!entry &&
+    typeof entry.id === "string" &&
+    typeof entry.name === "string" &&
+    !!entry.values &&
+    typeof entry.values === "object"
+  );
+}
+
+function byName(a: CalculationPreset, b: CalculationPreset): number {
+  return a.name.localeCompare(b.name);
+}
+
+/** Presets saved in this Base, sorted by name. */
+export async function loadPresets(): Promise<CalculationPreset[]> {
+  const stored = await readPluginData<CalculationPreset[]>(STORAGE_KEY, []);
+  const presets = Array.isArray(stored) ? stored.filter(isPreset) : [];
+  return presets
+    .map(({ id, name, values }) => ({
+      id,
+      name,
+      values: Object.fromEntries(
+        Object.entries(values).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string"
+        )
+      ),
+    }))
+    .sort(byName);
+}
+
+/** Replaces the stored presets; everyone using the plugin in the Base sees them. */
+export async function savePresets(presets: CalculationPreset[]): Promise<boolean> {
+  const entries = presets.map(({ id, name, values }) => ({ id, name, values: { ...values } }));
+  return writePluginData(STORAGE_KEY, entries.sort(byName));
+}
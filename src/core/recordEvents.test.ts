@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { RecordEvent } from "./calculator";
+import { countRecordEvents, filterRecordEvents } from "./recordEvents";
+
+function event(overrides: Partial<RecordEvent>): RecordEvent {
+  return {
+    recordId: "rec1",
+    label: "SOL-1",
+    itemCode: "SOL-1",
+    severity: "info",
+    category: "updated",
+    message: "",
+    changes: [],
+    ...overrides,
+  };
+}
+
+const events = [
+  event({ recordId: "rec1", label: "SOL-1", itemCode: "SOL-1" }),
+  event({
+    recordId: "rec2",
+    label: "SOL-2",
+    itemCode: "SOL-2",
+    severity: "warning",
+    category: "skipped",
+    message: "Master Qty must be a whole number, skipped.",
+  }),
+  event({ recordId: "rec3", label: "#3", itemCode: null, category: "unchanged" }),
+];
+
+describe("countRecordEvents", () => {
+  it("counts every category, empty ones included", () => {
+    expect(countRecordEvents(events)).toEqual({ error: 0, skipped: 1, updated: 1, unchanged: 1 });
+  });
+});
+
+describe("filterRecordEvents", () => {
+  it("keeps the events of one category", () => {
+    expect(filterRecordEvents(events, "skipped", "").map((e) => e.recordId)).toEqual(["rec2"]);
+  });
+
+  it("searches label, Item # and message ignoring case", () => {
+    expect(filterRecordEvents(events, null, "sol-2").map((e) => e.recordId)).toEqual(["rec2"]);
+    expect(filterRecordEvents(events, null, "WHOLE NUMBER").map((e) => e.recordId)).toEqual([
+      "rec2",
+    ]);
+    expect(filterRecordEvents(events, "updated", "sol-2")).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import type { RecordEvent, RecordEventCategory } from "./calculator";
+
+/** Display order of the categories in the result list. */
+export const RECORD_EVENT_CATEGORIES: readonly RecordEventCategory[] = [
+  "error",
+  "skipped",
+  "updated",
+  "unchanged",
+];
+
+export function countRecordEvents(events: RecordEvent[]): Record<RecordEventCategory, number> {
+  const counts: Record<RecordEventCategory, number> = {
+    error: 0,
+    skipped: 0,
+    updated: 0,
+    unchanged: 0,
+  };
+  for (const event of events) counts[event.category] += 1;
+  return counts;
+}
+
+/**
+ * Events of `category` (all of them for `null`) whose label, Item #, record id
+ * or message contains `query`, ignoring case.
+ */
+export function filterRecordEvents(
+  events: RecordEvent[],
+  category: RecordEventCategory | null,
+  query: string
+): RecordEvent[] {
+  const needle = query.trim().toLowerCase();
+  return events.filter((event) => {
+    if (category && event.category !== category) return false;
+    if (!needle) return true;
+    return [event.label, event.itemCode, event.recordId, event.message].some((text) =>
+      text?.toLowerCase().includes(needle)
+    );
+  });
+}
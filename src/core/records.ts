@@ -0,0 +1,117 @@
+import type { RecordSnapshot, RecordUpdate, TableAdapter, ViewAdapter } from "./adapter";
+import { logError } from "../utils/logger";
+
+/** Page size limit of `getRecords` / `setRecords` in the Bitable SDK. */
+export const RECORD_BATCH_SIZE = 200;
+/** How long a cell written by the plugin is recognised in change events. */
+const OWN_WRITE_WINDOW_MS = 10_000;
+
+/** `recordId:fieldId` → time the plugin wrote the cell. */
+const ownWrites = new Map<string, number>();
+
+export interface BatchWriteResult {
+  written: number;
+  failedRecordIds: string[];
+}
+
+function markOwnWrites(updates: RecordUpdate[]) {
+  const now = Date.now();
+  for (const [key, writtenAt] of ownWrites) {
+    if (now - writtenAt > OWN_WRITE_WINDOW_MS) ownWrites.delete(key);
+  }
+  for (const { recordId, fields } of updates) {
+    for (const fieldId of Object.keys(fields)) {
+      ownWrites.set(`${recordId}:${fieldId}`, now);
+    }
+  }
+}
+
+/**
+ * True when the cell was written by the plugin moments ago, so the matching
+ * cell change event is an echo of our own write. Each write is consumed once.
+ */
+export function consumeOwnWrite(recordId: string, fieldId: string): boolean {
+  const key = `${recordId}:${fieldId}`;
+  const writtenAt = ownWrites.get(key);
+  if (writtenAt == null) return false;
+  ownWrites.delete(key);
+  return Date.now() - writtenAt <= OWN_WRITE_WINDOW_MS;
+}
+
+export function chunk<T>(list: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < list.length; i += size) {
+    chunks.push(list.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function fetchViewRecords(
+  table: TableAdapter,
+  viewId: string
+): Promise<Map<string, RecordSnapshot>> {
+  const records = new Map<string, RecordSnapshot>();
+  let pageToken: string | undefined;
+  do {
+    const page = await table.getRecords({ viewId, pageSize: RECORD_BATCH_SIZE, pageToken });
+    for (const record of page.records) {
+      records.set(record.recordId, record);
+    }
+    pageToken = page.hasMore ? page.pageToken : undefined;
+  } while (pageToken);
+  return records;
+}
+
+/**
+ * Loads the given records in bulk, returned in the order of `recordIds`.
+ * When the whole view is requested it pages through the view; records it
+ * did not return (or all of them, if paging fails) are fetched by id.
+ */
+export async function fetchRecords(
+  table: TableAdapter,
+  view: ViewAdapter,
+  recordIds: string[],
+  wholeView: boolean
+): Promise<RecordSnapshot[]> {
+  let records = new Map<string, RecordSnapshot>();
+  if (wholeView && view.id) {
+    try {
+      records = await fetchViewRecords(table, view.id);
+    } catch (err) {
+      logError("records:fetch", err);
+    }
+  }
+
+  const missing = recordIds.filter((recordId) => !records.has(recordId));
+  if (missing.length) {
+    for (const record of await table.getRecordsByIds(missing)) {
+      records.set(record.recordId, record);
+    }
+  }
+  return recordIds.map((recordId) => records.get(recordId) ?? { recordId, fields: {} });
+}
+
+/**
+ * Writes updates through `setRecords` in batches of at most
+ * {@link RECORD_BATCH_SIZE} records. A failed batch does not stop the others;
+ * its record ids are returned so the caller can report them. Every cell is
+ * remembered for {@link consumeOwnWrite}.
+ */
+export async function writeRecords(
+  table: TableAdapter,
+  updates: RecordUpdate[],
+  batchSize = RECORD_BATCH_SIZE
+): Promise<BatchWriteResult> {
+  const result: BatchWriteResult = { written: 0, failedRecordIds: [] };
+  for (const batch of chunk(updates, batchSize)) {
+    try {
+      markOwnWrites(batch);
+      await table.setRecords(batch);
+      result.written += batch.length;
+    } catch (err) {
+      logError("records:write", err);
+      result.failedRecordIds.push(...batch.map((update) => update.recordId));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_UNITS, type RecordReport } from "./calculator";
+import { buildReportRows, formatCsv } from "./report";
+import { t } from "../i18n";
+
+const report: RecordReport = {
+  recordId: "rec1",
+  label: "SOL-1",
+  itemCode: "SOL-1",
+  status: "ok",
+  reason: null,
+  itemWidth: 4,
+  itemDepth: 3,
+  itemHeight: 2,
+  itemWeight: 150,
+  innerQty: 6,
+  masterQty: 24,
+  innerBuffer: 1,
+  masterBuffer: 0,
+  innerMaterial: "Box",
+  masterMaterial: null,
+  inner: { width: 9, depth: 8, height: 5, counts: [2, 3, 1] },
+  innerWeight: 2.1,
+  innersPerMaster: 4,
+  master: { width: 18, depth: 16, height: 5, counts: [2, 2, 1] },
+  netWeight: 3.6,
+  grossWeightKg: 4.5,
+  masterCbm: 0.024,
+};
+
+describe("buildReportRows", () => {
+  it("writes one header row and one row per record", () => {
+    const [header, row, ...rest] = buildReportRows([report], DEFAULT_UNITS);
+
+    expect(rest).toEqual([]);
+    expect(row).toHaveLength(header.length);
+    expect(header[0]).toBe(t("report.column.itemCode"));
+    expect(row.slice(0, 4)).toEqual(["SOL-1", "rec1", t("report.status.ok"), ""]);
+    expect(row[header.indexOf(t("report.column.innerLayout"))]).toBe("2×3×1");
+    expect(row[header.indexOf(t("report.column.masterMaterial"))]).toBe("");
+  });
+
+  it("labels the columns with the run's units", () => {
+    const units = { ...DEFAULT_UNITS, itemDimension: "cm", netWeight: "lb" } as const;
+    const [header] = buildReportRows([], units);
+
+    expect(header).toContain(t("report.column.itemWidth", { unit: "cm" }));
+    expect(header).toContain(t("report.column.netWeight", { unit: "lbs" }));
+  });
+
+  it("leaves the carton columns empty for a skipped record", () => {
+    const skipped: RecordReport = {
+      ...report,
+      status: "skipped",
+      reason: "no size",
+      inner: null,
+      master: null,
+    };
+    const [header, row] = buildReportRows([skipped], DEFAULT_UNITS);
+
+    expect(row[header.indexOf(t("report.column.status"))]).toBe(t("report.status.skipped"));
+    expect(row[header.indexOf(t("report.column.masterWidth", { unit: "in" }))]).toBeNull();
+    expect(row[header.indexOf(t("report.column.masterLayout"))]).toBeNull();
+  });
+});
+
+describe("formatCsv", () => {
+  it("starts with a byte order mark and ends every row with CRLF", () => {
+    expect(formatCsv([["a", 1], [null, "b"]])).toBe("\uFEFFa,1\r\n,b\r\n");
+  });
+
+  it("quotes cells holding commas, quotes or line breaks", () => {
+    expect(formatCsv([["a,b", 'say "hi"', "two\nlines"]])).toBe(
+      '\uFEFF"a,b","say ""hi""","two\nlines"\r\n'
+    );
+  });
+
+  it("keeps text cells from being read as formulas", () => {
+    const csv = formatCsv([["=SUM(A1:A2)", "+1", "-1", "@cmd", "\tx", "x=1", -1]]);
+
+    expect(csv).toBe("\uFEFF'=SUM(A1:A2),'+1,'-1,'@cmd,'\tx,x=1,-1\r\n");
+  });
+
+  it("quotes an escaped formula that needs quoting", () => {
+    expect(formatCsv([['=HYPERLINK("x","y")']])).toBe('\uFEFF"\'=HYPERLINK(""x"",""y"")"\r\n');
+  });
+});
@@ -0,0 +1,108 @@
+import type { CartonReport, RecordReport, RecordStatus, UnitSettings } from "./calculator";
+import { t, type MessageKey } from "../i18n";
+import { formatUnit } from "../utils/numbers";
+import type { SheetCell } from "../utils/xlsx";
+
+const STATUS_LABELS = {
+  ok: "report.status.ok",
+  skipped: "report.status.skipped",
+  failed: "report.status.failed",
+} as const satisfies Record<RecordStatus, MessageKey>;
+
+interface ReportColumn {
+  header: string;
+  value: (report: RecordReport) => SheetCell;
+}
+
+const formatLayout = (carton: CartonReport | null) => (carton ? carton.counts.join("×") : null);
+
+/** Columns of the packing spec, with units taken from the run's unit settings. */
+function buildColumns(units: UnitSettings): ReportColumn[] {
+  const item = { unit: formatUnit(units.itemDimension) };
+  const itemWeight = { unit: formatUnit(units.itemWeight) };
+  const carton = { unit: formatUnit(units.cartonDimension) };
+  return [
+    { header: t("report.column.itemCode"), value: (report) => report.itemCode ?? "" },
+    { header: t("report.column.recordId"), value: (report) => report.recordId },
+    { header: t("report.column.status"), value: (report) => t(STATUS_LABELS[report.status]) },
+    { header: t("report.column.reason"), value: (report) => report.reason ?? "" },
+    { header: t("report.column.itemWidth", item), value: (report) => report.itemWidth },
+    { header: t("report.column.itemDepth", item), value: (report) => report.itemDepth },
+    { header: t("report.column.itemHeight", item), value: (report) => report.itemHeight },
+    { header: t("report.column.itemWeight", itemWeight), value: (report) => report.itemWeight },
+    { header: t("report.column.innerQty"), value: (report) => report.innerQty },
+    { header: t("report.column.masterQty"), value: (report) => report.masterQty },
+    { header: t("report.column.innerMaterial"), value: (report) => report.innerMaterial },
+    {
+      header: t("report.column.masterMaterial"),
+      value: (report) => report.masterMaterial ?? "",
+    },
+    { header: t("report.column.innerBuffer", carton), value: (report) => report.innerBuffer },
+    { header: t("report.column.masterBuffer", carton), value: (report) => report.masterBuffer },
+    {
+      header: t("report.column.innerWidth", carton),
+      value: (report) => report.inner?.width ?? null,
+    },
+    {
+      header: t("report.column.innerDepth", carton),
+      value: (report) => report.inner?.depth ?? null,
+    },
+    {
+      header: t("report.column.innerHeight", carton),
+      value: (report) => report.inner?.height ?? null,
+    },
+    { header: t("report.column.innerLayout"), value: (report) => formatLayout(report.inner) },
+    {
+      header: t("report.column.innerWeight", { unit: formatUnit(units.innerWeight) }),
+      value: (report) => report.innerWeight,
+    },
+    { header: t("report.column.innersPerMaster"), value: (report) => report.innersPerMaster },
+    {
+      header: t("report.column.masterWidth", carton),
+      value: (report) => report.master?.width ?? null,
+    },
+    {
+      header: t("report.column.masterDepth", carton),
+      value: (report) => report.master?.depth ?? null,
+    },
+    {
+      header: t("report.column.masterHeight", carton),
+      value: (report) => report.master?.height ?? null,
+    },
+    { header: t("report.column.masterLayout"), value: (report) => formatLayout(report.master) },
+    {
+      header: t("report.column.netWeight", { unit: formatUnit(units.netWeight) }),
+      value: (report) => report.netWeight,
+    },
+    { header: t("report.column.grossWeight"), value: (report) => report.grossWeightKg },
+    { header: t("report.column.cbm"), value: (report) => report.masterCbm },
+  ];
+}
+
+/** Header row followed by one row per record, in run order. */
+export function buildReportRows(reports: RecordReport[], units: UnitSettings): SheetCell[][] {
+  const columns = buildColumns(units);
+  return [
+    columns.map((column) => column.header),
+    ...reports.map((report) => columns.map((column) => column.value(report))),
+  ];
+}
+
+/** Leading characters that make spreadsheet apps evaluate a cell as a formula. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCsvCell(value: SheetCell): string {
+  if (value == null) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a UTF-8 byte order mark, so Excel opens the Chinese
+ * skip reasons correctly. Text cells that would start a formula get a leading
+ * apostrophe; numbers, negative ones included, are written as they are.
+ */
+export function formatCsv(rows: SheetCell[][]): string {
+  return `\uFEFF${rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n")}\r\n`;
+}
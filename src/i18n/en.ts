@@ -0,0 +1,381 @@
+import type { MessageKey } from "./zh";
+
+/** English messages; must define every key of the Chinese catalogue. */
+export const en: Record<MessageKey, string> = {
+  "list.separator": "; ",
+
+  "error.unknown": "Unknown error",
+  "error.notReady": "The plugin is not ready yet, please try again shortly.",
+  "error.missingForCalc": "Missing fields, cannot calculate: {fields}",
+  "error.missingForAudit": "Missing fields, cannot audit: {fields}",
+  "error.calculateFailed": "Calculation failed",
+  "error.writeFailed": "Write failed",
+  "error.undoFailed": "Undo failed",
+  "error.casePackFailed": "Case pack suggestion failed",
+  "error.sdkGetRecords": "This SDK version does not support getRecords",
+  "error.sdkEvent": "This SDK version does not support the {method} event",
+
+  "calc.arrangement": "arrangement {counts}, orientation {orientation}{rotated}",
+  "calc.rotated": ", rotated",
+  "calc.internalSize": ", internal {width} × {depth} × {height}",
+  "calc.score.surface": "surface {value} ft²",
+  "calc.score.cubic": "side ratio {value}",
+  "calc.score.height": "height {value} {unit}",
+  "calc.score.palletFit": "pallet fill {percent}%",
+  "calc.score.palletMiss": "does not fit the pallet",
+  "calc.candidates.inner": "{label} inner candidates ({objective}):",
+  "calc.candidates.master": "{label} master candidates ({objective}):",
+  "calc.candidate": "  {position}. {width} × {depth} × {height} ({counts}): {score}",
+  "calc.rejections":
+    "{label} has no arrangement within the master constraints ({count} candidates ruled out):",
+  "calc.rejection": "  · {width} × {depth} × {height} ({counts}): {reasons}",
+  "calc.rejectionReason": "{constraint} {actual} > {limit}",
+  "calc.rejectionsMore": "  · …{count} more candidates not listed.",
+  "calc.orientationUnknown":
+    "{label} has an unrecognised orientation \"{value}\"; using the panel setting.",
+  "calc.materialUnknown": "{label} has unknown packaging \"{value}\"; using the panel setting.",
+  "calc.bufferInvalid": "{label} {field} value {value} is invalid; using the panel setting.",
+  "calc.parameters":
+    "{label} parameters: inner packaging {material} ({materialSource}), inner buffer {innerBuffer} {innerBufferUnit} ({innerBufferSource}), master buffer {masterBuffer} {masterBufferUnit} ({masterBufferSource}).",
+  "calc.source.column": "from column",
+  "calc.source.panel": "from panel",
+  "calc.source.fitsProduct": "packaging fits the product, no buffer",
+  "calc.skip.itemSize": "Item dimensions are incomplete, skipped.",
+  "calc.skip.innerQtyInteger": "Inner Qty must be a whole number, skipped.",
+  "calc.skip.masterQtyInteger": "Master Qty must be a whole number, skipped.",
+  "calc.skip.masterQtyZero": "Master Qty is 0 or empty, master carton skipped.",
+  "calc.skip.ratio": "Master Qty ({master}) to Inner Qty ({inner}) ratio is invalid, skipped.",
+  "calc.skip.notDivisible":
+    "Master Qty ({master}) is not divisible by Inner Qty ({inner}), master carton skipped.",
+  "calc.skip.innerSize": "No usable inner carton size, cannot calculate the master carton.",
+  "calc.skip.constraints": "No arrangement satisfies the master constraints.",
+  "calc.skip.masterNotFound": "No suitable master carton arrangement found.",
+  "calc.casePackZero": "Case pack is zero, pls input the master qty as case pack!",
+  "calc.innerNotFound": "{label}: no suitable inner carton arrangement found.",
+  "calc.innerWeightFilled": "{label} inner gross weight filled in: {weight} {unit}.",
+  "calc.innerWeightMissing": "{label} has no item weight, cannot derive the inner gross weight.",
+  "calc.noInner": "{label} Inner Qty is 0 or empty, packed without inner cartons.",
+  "calc.innerUpdated":
+    "{label} inner carton updated: {width} × {depth} × {height} ({unit}){internal}, {arrangement}.",
+  "calc.masterUpdated":
+    "{label} master carton updated: {width} × {depth} × {height} ({unit}){internal}, {arrangement}.",
+  "calc.netWeightCleared": "{label} item weight is empty or 0, N.W. cleared.",
+  "calc.netWeightUpdated": "{label} N.W. updated: {weight} {unit}.",
+  "calc.netWeightNoField": "{label} has no N.W. field mapped, cannot write {weight} {unit}.",
+  "calc.grossWeightUpdated":
+    "{label} master gross weight updated: {kg} kg / {lb} lbs (inner packaging {innerTare} g, master packaging {masterTare} g).",
+  "calc.volume": "{label} master volume: {cbm} CBM / {cubeFeet} cu ft.",
+  "calc.unknownGrossWeight": "unknown (no gross weight)",
+  "calc.container":
+    "{label} container ({type}): {cartons} cartons / {units} units per container, volume use {volumeRate}%, weight use {weightRate}, {limit}.",
+  "calc.container.byWeight": "limited by weight",
+  "calc.container.byVolume": "limited by volume",
+  "calc.dimWeightNoGross":
+    "{label} dimensional weight ({profile}): {dim} {unit}; no gross weight, billable weight unknown.",
+  "calc.billableWeight":
+    "{label} dimensional weight ({profile}): {dim} {unit}, billable {billable} {unit}, {basis}.",
+  "calc.billedOnDim": "billed on dimensional weight",
+  "calc.billedOnActual": "billed on actual weight",
+  "calc.palletMiss": "{label} master carton does not fit the {pallet} pallet, pallet skipped.",
+  "calc.palletNoLayer":
+    "{label} pallet ({pallet}): a single layer already exceeds the height or weight limit.",
+  "calc.pallet":
+    "{label} pallet ({pallet}): {perLayer} cartons × {layers} layers = {perPallet} cartons, height {height} {unit}, weight {weight}, {limit}.",
+  "calc.pallet.byWeight": "limited by weight",
+  "calc.pallet.byHeight": "limited by height",
+  "calc.noChanges": "Nothing to write.",
+  "calc.snapshotFailed": "The undo snapshot could not be saved, so nothing was written.",
+  "calc.writeFailed": "{label} could not be written, please try again later.",
+  "calc.written": "Wrote {written}/{total} records.",
+  "calc.palletFitFallback": "No pallet selected, cannot optimise for pallet fit; using smallest volume.",
+  "calc.noRecords": "The current view has no records to calculate.",
+  "calc.startPreview": "Preview: calculating {count} records without writing to the table.",
+  "calc.start": "Processing {count} records.",
+  "calc.unitFromHeader": "Columns {fields} are labelled {unit}; reading and writing them in {unit} (panel: {panel}).",
+  "calc.unitConflict": "Column {field} is labelled {unit}, which disagrees with {expected} in use; skipping it for this run.",
+  "calc.failed": "{label} calculation failed: {message}",
+  "calc.failedReason": "Calculation failed: {message}",
+  "calc.finished":
+    "Calculated {processed}/{total} records in {elapsed} (read {read}, calculate {plan}, write {write}), about {rate} records/s.",
+
+  "event.updated": "Updated {count} fields",
+  "event.pending": "{count} fields to update (preview)",
+  "event.unchanged": "Already up to date",
+
+  "result.category.all": "All",
+  "result.category.error": "Errors",
+  "result.category.skipped": "Skipped",
+  "result.category.updated": "Updated",
+  "result.category.unchanged": "Unchanged",
+  "result.filter": "{label} {count}",
+  "result.change": "{field}: {before} → {after}",
+  "result.summary": "Showing {shown}/{total} records; click one to open it in the table.",
+  "result.openFailed": "Could not open the record",
+
+  "constraint.maxGrossWeightKg": "Gross weight",
+  "constraint.maxSide": "Longest side",
+  "constraint.maxGirth": "Girth",
+  "constraint.maxLayers": "Layers",
+
+  "objective.volume": "smallest volume",
+  "objective.surface": "smallest surface",
+  "objective.cubic": "closest to a cube",
+  "objective.height": "lowest height",
+  "objective.palletFit": "fit the {pallet} pallet",
+
+  "audit.kind.mismatch": "Mismatch",
+  "audit.kind.impossible": "Impossible",
+  "audit.kind.missing": "Missing",
+  "audit.storedEmpty": "{field} is empty, the formula gives {expected}",
+  "audit.expectedEmpty": "{field} should be empty, found {stored}",
+  "audit.mismatch": "{field} {stored} ≠ formula {expected}",
+  "audit.innerTooBig": "Inner {inner} does not fit the master {master}",
+  "audit.netWeight": "{field} {stored} ≠ item weight × Master Qty = {expected}",
+  "audit.finding": "{kind}: {message}",
+  "audit.noPackCheckField": "No Pack Check field found; map it in Field mapping first.",
+  "audit.running": "Auditing…",
+  "audit.summary": "Audited {total} records, {flagged} with issues.",
+  "audit.noRecords": "The current view has no records to audit.",
+  "audit.finished": "Audit finished: {flagged}/{total} records with issues.",
+  "audit.packCheckUpToDate": "Pack Check is already up to date, nothing to write.",
+  "audit.failed": "Audit failed",
+
+  "history.nothingToUndo": "There is no calculation to undo.",
+  "history.undoPartial":
+    "Undo incomplete: {failed}/{total} records could not be restored ({records}); undo again to retry them.",
+  "history.undone": "Undid the calculation from {time}: restored {records} records, {cells} cells.",
+
+  "packaging.tareFixed": "{tare} g/piece",
+  "packaging.tareArea": "{tare} g/m²",
+  "packaging.option": "{name} ({tare})",
+  "packaging.wall": "wall {wall} mm",
+  "packaging.fitsProduct": "fits the product, no buffer",
+  "packaging.builtIn": "Built-in",
+  "packaging.delete": "Delete",
+  "packaging.nameRequired": "Please enter a packaging name.",
+  "packaging.duplicate": "Packaging \"{name}\" already exists.",
+  "packaging.negative": "Packaging weight and wall thickness cannot be negative.",
+  "packaging.saveFailed": "Could not save the packaging, please try again later.",
+  "packaging.added": "Packaging added: {name}",
+
+  "preset.noSelection": "Choose a preset first.",
+  "preset.nameRequired": "Please enter a preset name.",
+  "preset.duplicate": "Preset \"{name}\" already exists.",
+  "preset.overwriteTitle": "Overwrite preset",
+  "preset.overwriteMessage":
+    "Preset \"{name}\" already exists. Replace it with the current settings?",
+  "preset.deleteTitle": "Delete preset",
+  "preset.deleteMessage":
+    "Delete preset \"{name}\"? Nobody in this Base will be able to use it anymore.",
+  "preset.saveFailed": "Could not save the presets, please try again later.",
+  "preset.saved": "Preset saved: {name}",
+  "preset.renamed": "Preset renamed to: {name}",
+  "preset.deleted": "Preset deleted: {name}",
+  "preset.applied": "Preset applied: {name}",
+  "preset.unavailable":
+    "Some packaging or options of preset \"{name}\" no longer exist; those settings keep their current value.",
+
+  "casePack.noInner": "Master {master} (no inner)",
+  "casePack.fillRate": "fill rate {rate}%",
+  "casePack.noSelection": "Select a record in the table first.",
+  "casePack.noItemSize": "The selected record has no item dimensions, cannot suggest a case pack.",
+  "casePack.summary": "{label}: top {count} combinations by fill rate, click one to write it.",
+  "casePack.none":
+    "{label}: no combination in range satisfies the constraints; widen the range or the master constraints.",
+
+  "casePack.pack": "Inner {inner} / Master {master}",
+  "report.column.itemCode": "Item Code",
+  "report.column.recordId": "Record ID",
+  "report.column.status": "Status",
+  "report.column.reason": "Skip Reason",
+  "report.column.itemWidth": "Item Width ({unit})",
+  "report.column.itemDepth": "Item Depth ({unit})",
+  "report.column.itemHeight": "Item Height ({unit})",
+  "report.column.itemWeight": "Item Weight ({unit})",
+  "report.column.innerQty": "Inner Qty",
+  "report.column.masterQty": "Master Qty",
+  "report.column.innerMaterial": "Inner Material",
+  "report.column.masterMaterial": "Master Material",
+  "report.column.innerBuffer": "Inner Buffer ({unit})",
+  "report.column.masterBuffer": "Master Buffer ({unit})",
+  "report.column.innerWidth": "Inner Width ({unit})",
+  "report.column.innerDepth": "Inner Depth ({unit})",
+  "report.column.innerHeight": "Inner Height ({unit})",
+  "report.column.innerLayout": "Inner Layout",
+  "report.column.innerWeight": "Inner Weight ({unit})",
+  "report.column.innersPerMaster": "Inner/Master",
+  "report.column.masterWidth": "Master Width ({unit})",
+  "report.column.masterDepth": "Master Depth ({unit})",
+  "report.column.masterHeight": "Master Height ({unit})",
+  "report.column.masterLayout": "Master Layout",
+  "report.column.netWeight": "Net Weight ({unit})",
+  "report.column.grossWeight": "Gross Weight (kg)",
+  "report.column.cbm": "CBM",
+  "report.status.ok": "OK",
+  "report.status.skipped": "Skipped",
+  "report.status.failed": "Failed",
+  "warn.disposeListener": "Failed to remove a table listener",
+  "warn.registerListener": "Failed to register the {method} listener",
+  "warn.registerBaseListeners": "Failed to register the table/view listeners",
+  "warn.selection": "Failed to read the selected records",
+  "warn.openRecord": "Failed to open the record",
+  "memory.recordMissing": "Record {recordId} does not exist",
+  "mapping.autoMatch": "Match by name ({name})",
+  "mapping.autoMatchMissing": "Match by name (not found)",
+  "mapping.suggestion": "Suggested: {name} ({score}% similar)",
+  "mapping.loadFailed": "Could not read the field list",
+  "mapping.saveFailed": "Could not save the field mapping",
+  "mapping.conflict": "Each column can serve one field only, pick another column for: {fields}",
+  "mapping.saved": "Field mapping saved",
+  "mapping.resetFailed": "Could not reset the field mapping",
+  "mapping.reset": "Back to matching by name",
+
+  "preview.record": "Record",
+  "preview.field": "Field",
+  "preview.before": "Current",
+  "preview.after": "New",
+  "preview.noChanges": "Preview finished: nothing to write.",
+  "preview.summary":
+    "{records} records and {cells} cells will change. Untick a record to skip it.",
+  "preview.noneAccepted": "No records are ticked.",
+  "preview.discarded": "Preview discarded, the table was not changed.",
+
+  "diagram.topView": "Top view: {width} × {depth} per layer, {layers} layers",
+  "diagram.noCanvas": "Could not create a canvas",
+  "diagram.pngFailed": "PNG export failed",
+  "diagram.notInRun":
+    "The selected record is not in the last calculation; calculate or preview it first.",
+  "diagram.inner": "Inner: {counts} items",
+  "diagram.masterInners": "Master: {counts} inners",
+  "diagram.masterItems": "Master: {counts} items",
+  "diagram.summary": "{label}: sizes are external, the top view shows a single layer.",
+
+  "pallet.summary": "{pallet}: {perLayer} cartons × {layers} layers = {perPallet} cartons",
+
+  "auto.skippedMissing": "Auto recalculation skipped: missing fields {fields}.",
+  "auto.running": "Recalculating…",
+  "auto.detected": "Auto recalculation: input changes detected in {count} records.",
+  "auto.failed": "Auto recalculation failed",
+  "auto.failedLog": "Auto recalculation failed: {message}",
+  "auto.enabled":
+    "Auto mode on: records are recalculated after their item size, weight or quantities change.",
+  "auto.disabled": "Auto mode off.",
+
+  "context.label": "Table: {table} / View: {view}",
+  "context.unknown": "Unknown",
+  "context.missingFields": "Missing fields, some features are limited: {fields}",
+  "context.initialising": "Initialising the plugin…",
+  "context.initFailed": "Initialisation failed",
+
+  "settings.invalidContainer": "Custom container size or payload is invalid, container skipped.",
+  "settings.invalidPallet": "Pallet size or height/weight limit is invalid, pallet skipped.",
+
+  "undo.empty": "Nothing to undo",
+  "undo.last": "Last: {time} · {table} · {records} records ({runs} undoable)",
+  "undo.unknownTable": "Unknown table",
+
+  "confirm.ok": "OK",
+  "confirm.cancel": "Cancel",
+  "confirm.allTitle": "Calculate all records",
+  "confirm.allMessage": "No records are selected. Calculate every record in the current view?",
+  "confirm.undoTitle": "Undo the last calculation",
+  "confirm.undoMessage": "Restore {cells} cells to their values before {time}?",
+  "confirm.casePackTitle": "Write case pack",
+  "confirm.casePackMessage": "Set Inner Qty to {inner} and Master Qty to {master} for {label}?",
+
+  "toast.previewReady": "Preview ready, confirm to write",
+  "toast.calculated": "Calculation finished",
+  "toast.written": "Written",
+  "toast.undone": "Undone",
+  "toast.casePackWritten": "Case pack written, click \"Calculate\" to update the sizes",
+
+  "panel.loadingContext": "Loading the current table and view…",
+  "panel.mapping.title": "Field mapping",
+  "panel.mapping.hint":
+    "Pick the column of the current table for each logical field; the mapping is remembered per table. Fields marked * are required.",
+  "panel.mapping.reset": "Match by name",
+  "panel.mapping.save": "Save mapping",
+  "panel.casePack.title": "Case pack suggestions",
+  "panel.casePack.hint":
+    "Tries Inner / Master Qty combinations in the ranges below for the selected record's item size and weight, using the buffers, orientation, objective and master constraints further down. Click a suggestion to write it to the record.",
+  "panel.casePack.masterMin": "Master min",
+  "panel.casePack.masterMax": "Master max",
+  "panel.casePack.innerMin": "Inner min",
+  "panel.casePack.innerMax": "Inner max",
+  "panel.casePack.allowNoInner": "Also try without inners",
+  "panel.casePack.run": "Suggest for selected record",
+  "panel.audit.title": "Audit",
+  "panel.audit.hint":
+    "Recalculates every record in the view with the settings below and compares the result with the inner/master sizes and weights in the table. Lists differences beyond the tolerances, impossible values (inner larger than the master, N.W. not equal to item weight × Master Qty) and missing data. The audit never changes sizes or weights.",
+  "panel.audit.lengthTolerance": "Size tolerance (carton unit)",
+  "panel.audit.weightTolerance": "Weight tolerance (%)",
+  "panel.audit.writePackCheck": "Write the result to the Pack Check field",
+  "panel.audit": "Audit current view",
+  "panel.packaging.title": "Packaging",
+  "panel.packaging.hint":
+    "Fixed weights count per box/bag; g/m² counts the surface of the carton's six faces. Wall thickness turns the internal size into the external size (external = internal + 2 × wall), separately from the buffers. Added packaging is saved in this Base and can be chosen as Inner / Master Material.",
+  "panel.packaging.name": "Name",
+  "panel.packaging.mode": "Weighing",
+  "panel.packaging.perPiece": "g/piece",
+  "panel.packaging.tare": "Weight",
+  "panel.packaging.wall": "Wall (mm)",
+  "panel.packaging.fitsProduct": "Fits the product (e.g. bags, no inner buffer)",
+  "panel.packaging.add": "Add packaging",
+  "panel.presets": "Presets",
+  "panel.presets.none": "Choose a preset…",
+  "panel.presets.delete": "Delete",
+  "panel.presets.name": "Preset name, e.g. Walmart DC",
+  "panel.presets.saveAs": "Save as",
+  "panel.presets.rename": "Rename",
+  "panel.presets.hint":
+    "A preset stores the buffers, units, packaging, orientation, objective, master constraints, container, DIM and pallet settings below. Presets are saved in this Base and shared with the team. Choosing a preset applies it.",
+  "panel.buffers": "Buffers",
+  "panel.units": "Units",
+  "panel.units.itemDimension": "Item size",
+  "panel.units.itemWeight": "Item weight",
+  "panel.units.cartonDimension": "Carton size",
+  "panel.units.innerWeight": "Inner gross weight",
+  "panel.orientation.any": "Any orientation (6)",
+  "panel.orientation.upright": "This Side Up (height up)",
+  "panel.orientation.fixed": "No rotation",
+  "panel.noMasterMaterial": "No master packaging weight",
+  "panel.objective": "Objective",
+  "panel.objective.volume": "Smallest volume",
+  "panel.objective.surface": "Smallest surface (less board)",
+  "panel.objective.cubic": "Closest to a cube (more stable)",
+  "panel.objective.height": "Lowest height (shelf display)",
+  "panel.objective.palletFit": "Fit the pallet (from the pallet settings)",
+  "panel.constraints": "Master constraints",
+  "panel.constraints.maxGrossWeight": "Max gross weight (kg)",
+  "panel.constraints.maxSide": "Longest side",
+  "panel.constraints.maxGirth": "Max girth",
+  "panel.constraints.maxLayers": "Max layers",
+  "panel.constraints.noLimit": "No limit",
+  "panel.constraints.hint":
+    "Lengths use the carton size unit from Units; girth = longest side + 2 × the other two sides. Leave empty for no limit.",
+  "panel.container": "Container loading",
+  "panel.dimProfile": "Billable weight (DIM)",
+  "panel.pallet": "Pallet",
+  "panel.none": "None",
+  "panel.custom": "Custom",
+  "panel.selectAll": "Calculate every record in the current view",
+  "panel.previewFirst": "Preview before writing",
+  "panel.autoMode":
+    "Auto mode: recalculate a record after its item size, weight or quantities change",
+  "panel.calculate": "Calculate",
+  "panel.calculating": "Calculating…",
+  "panel.undo": "Undo last calculation",
+  "panel.preview.title": "Write preview",
+  "panel.preview.discard": "Discard",
+  "panel.preview.apply": "Write ticked records",
+  "panel.palletLayer.title": "Pallet layer",
+  "panel.diagram.title": "Packing diagram",
+  "panel.exportSvg": "Export SVG",
+  "panel.exportPng": "Export PNG",
+  "panel.results.title": "Results",
+  "panel.results.search": "Search record, Item # or reason",
+  "panel.log.title": "Log",
+  "panel.log.placeholder": "No log yet, click \"Calculate\" to see detailed results.",
+  "panel.exportCsv": "Export CSV",
+  "panel.exportXlsx": "Export XLSX",
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { formatNumber, onLanguageChange, resolveLanguage, setLanguage, t } from ".";
+import { en } from "./en";
+import { zh } from "./zh";
+
+function placeholders(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)].map((match) => match[1]).sort();
+}
+
+afterEach(() => {
+  setLanguage("zh");
+});
+
+describe("catalogues", () => {
+  it("define the same keys with the same placeholders", () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(zh).sort());
+    for (const [key, template] of Object.entries(zh)) {
+      expect(placeholders(en[key as keyof typeof zh]), key).toEqual(placeholders(template));
+    }
+  });
+});
+
+describe("t", () => {
+  it("fills placeholders in the current language", () => {
+    expect(t("calc.written", { written: 2, total: 3 })).toBe("已写入 2/3 条记录。");
+    setLanguage("en");
+    expect(t("calc.written", { written: 2, total: 3 })).toBe("Wrote 2/3 records.");
+  });
+
+  it("formats numeric parameters for the language", () => {
+    setLanguage("en");
+    expect(t("calc.start", { count: 12345 })).toBe("Processing 12,345 records.");
+    expect(formatNumber(1.5, 2)).toBe("1.50");
+  });
+
+  it("leaves unknown placeholders in place", () => {
+    expect(t("calc.written", { written: 1 })).toBe("已写入 1/{total} 条记录。");
+  });
+
+  it("notifies listeners when the language changes", () => {
+    const seen: string[] = [];
+    const stop = onLanguageChange((language) => seen.push(language));
+    setLanguage("en");
+    setLanguage("en");
+    stop();
+    setLanguage("zh");
+    expect(seen).toEqual(["en"]);
+  });
+});
+
+describe("resolveLanguage", () => {
+  it("maps Chinese locales to zh and everything else to en", () => {
+    expect(resolveLanguage("zh")).toBe("zh");
+    expect(resolveLanguage("zh-TW")).toBe("zh");
+    expect(resolveLanguage("en_US")).toBe("en");
+    expect(resolveLanguage("ja")).toBe("en");
+    expect(resolveLanguage(undefined)).toBe("zh");
+  });
+});
@@ -0,0 +1,79 @@
+import { en } from "./en";
+import { zh, type MessageKey } from "./zh";
+
+export type { MessageKey };
+
+export type Language = "zh" | "en";
+
+/** Values substituted for `{name}` placeholders; numbers are formatted for the language. */
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { zh, en };
+
+const LOCALES: Record<Language, string> = { zh: "zh-CN", en: "en-US" };
+
+let current: Language = "zh";
+const listeners = new Set<(language: Language) => void>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Catalogue for a client language or locale such as "zh", "zh-TW" or "en_US".
+ * Chinese variants get Chinese, every other language English.
+ */
+export function resolveLanguage(locale: string | null | undefined): Language {
+  if (!locale) return "zh";
+  return /^zh/i.test(locale) ? "zh" : "en";
+}
+
+export function getLanguage(): Language {
+  return current;
+}
+
+export function getLocale(): string {
+  return LOCALES[current];
+}
+
+export function setLanguage(language: Language) {
+  if (language === current) return;
+  current = language;
+  for (const listener of listeners) listener(language);
+}
+
+/** Called after every language switch; returns a function that stops listening. */
+export function onLanguageChange(listener: (language: Language) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Number in the current locale. With `fractionDigits` the value is padded to
+ * exactly that many decimals (like `toFixed`), otherwise up to 3 are kept.
+ */
+export function formatNumber(value: number, fractionDigits?: number): string {
+  const key = `${current}:${fractionDigits ?? ""}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(
+      LOCALES[current],
+      fractionDigits == null
+        ? { maximumFractionDigits: 3 }
+        : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }
+    );
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+export function formatDateTime(value: number | Date): string {
+  return new Date(value).toLocaleString(LOCALES[current]);
+}
+
+/** Message in the current language with its `{name}` placeholders filled in. */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const template = CATALOGUES[current][key] ?? zh[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value == null) return placeholder;
+    return typeof value === "number" ? formatNumber(value) : value;
+  });
+}
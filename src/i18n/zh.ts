@@ -0,0 +1,366 @@
+/**
+ * Chinese messages, the reference catalogue: every key used by the plugin is
+ * defined here first. `{name}` placeholders are filled in by `t`.
+ */
+export const zh = {
+  "list.separator": "；",
+
+  "error.unknown": "未知错误",
+  "error.notReady": "插件尚未准备就绪，稍后再试。",
+  "error.missingForCalc": "缺少字段，无法计算：{fields}",
+  "error.missingForAudit": "缺少字段，无法核对：{fields}",
+  "error.calculateFailed": "计算失败",
+  "error.writeFailed": "写入失败",
+  "error.undoFailed": "撤销失败",
+  "error.casePackFailed": "箱规推荐失败",
+  "error.sdkGetRecords": "当前 SDK 不支持 getRecords",
+  "error.sdkEvent": "当前 SDK 不支持 {method} 事件",
+
+  "calc.arrangement": "排列 {counts}，朝向 {orientation}{rotated}",
+  "calc.rotated": "，已旋转",
+  "calc.internalSize": "，内径 {width} × {depth} × {height}",
+  "calc.score.surface": "表面积 {value} ft²",
+  "calc.score.cubic": "长短边比 {value}",
+  "calc.score.height": "高 {value} {unit}",
+  "calc.score.palletFit": "托盘铺满 {percent}%",
+  "calc.score.palletMiss": "无法放上托盘",
+  "calc.candidates.inner": "{label} 中盒候选（{objective}）：",
+  "calc.candidates.master": "{label} 外箱候选（{objective}）：",
+  "calc.candidate": "  {position}. {width} × {depth} × {height} ({counts})：{score}",
+  "calc.rejections": "{label} 没有满足外箱约束的排列（{count} 种候选均被排除）：",
+  "calc.rejection": "  · {width} × {depth} × {height} ({counts})：{reasons}",
+  "calc.rejectionReason": "{constraint} {actual} > {limit}",
+  "calc.rejectionsMore": "  · …另有 {count} 种候选未列出。",
+  "calc.orientationUnknown": "{label} 无法识别朝向设置“{value}”，沿用面板设置。",
+  "calc.materialUnknown": "{label} 未找到包材“{value}”，沿用面板设置。",
+  "calc.bufferInvalid": "{label} {field} 的值 {value} 无效，沿用面板设置。",
+  "calc.parameters":
+    "{label} 参数：中盒包材 {material}（{materialSource}），中盒余量 {innerBuffer} {innerBufferUnit}（{innerBufferSource}），外箱余量 {masterBuffer} {masterBufferUnit}（{masterBufferSource}）。",
+  "calc.source.column": "来自表格列",
+  "calc.source.panel": "来自面板",
+  "calc.source.fitsProduct": "包材贴合产品，不加余量",
+  "calc.skip.itemSize": "未填写完整的产品尺寸，已跳过。",
+  "calc.skip.innerQtyInteger": "Inner Qty 需为整数，已跳过。",
+  "calc.skip.masterQtyInteger": "Master Qty 需为整数，已跳过。",
+  "calc.skip.masterQtyZero": "Master Qty 为 0 或空，已跳过外箱计算。",
+  "calc.skip.ratio": "Master Qty ({master}) 与 Inner Qty ({inner}) 的比例无效，已跳过。",
+  "calc.skip.notDivisible": "Master Qty ({master}) 无法被 Inner Qty ({inner}) 整除，外箱计算已跳过。",
+  "calc.skip.innerSize": "缺少可用的中盒尺寸，无法计算外箱。",
+  "calc.skip.constraints": "没有满足外箱约束的排列。",
+  "calc.skip.masterNotFound": "未找到适合的外箱排列方式。",
+  "calc.casePackZero": "Case pack 为 0，请在 Master Qty 中填写装箱量！",
+  "calc.innerNotFound": "{label} 未找到适合的中盒排列方式。",
+  "calc.innerWeightFilled": "{label} 自动补全中盒毛重：{weight} {unit}。",
+  "calc.innerWeightMissing": "{label} 缺少产品重量，无法推算中盒毛重。",
+  "calc.noInner": "{label} Inner Qty 为 0 或空，视为无中盒。",
+  "calc.innerUpdated": "{label} 中盒尺寸更新：{width} × {depth} × {height} ({unit}){internal}，{arrangement}。",
+  "calc.masterUpdated": "{label} 外箱尺寸更新：{width} × {depth} × {height} ({unit}){internal}，{arrangement}。",
+  "calc.netWeightCleared": "{label} 产品重量为空或为 0，净重已清空。",
+  "calc.netWeightUpdated": "{label} 净重更新：{weight} {unit}。",
+  "calc.netWeightNoField": "{label} 未配置净重字段，无法写入 {weight} {unit}。",
+  "calc.grossWeightUpdated":
+    "{label} 外箱毛重更新：{kg} kg / {lb} lbs（中盒包材 {innerTare} g，外箱包材 {masterTare} g）。",
+  "calc.volume": "{label} 外箱体积：{cbm} CBM / {cubeFeet} cu ft。",
+  "calc.unknownGrossWeight": "未知（缺少毛重）",
+  "calc.container":
+    "{label} 装柜（{type}）：每柜 {cartons} 箱 / {units} 件，体积利用率 {volumeRate}%，载重利用率 {weightRate}，{limit}。",
+  "calc.container.byWeight": "受载重限制",
+  "calc.container.byVolume": "受体积限制",
+  "calc.dimWeightNoGross": "{label} 体积重（{profile}）：{dim} {unit}，缺少毛重，无法确定计费重。",
+  "calc.billableWeight": "{label} 体积重（{profile}）：{dim} {unit}，计费重 {billable} {unit}，{basis}。",
+  "calc.billedOnDim": "按体积重计费",
+  "calc.billedOnActual": "按实重计费",
+  "calc.palletMiss": "{label} 外箱无法放入 {pallet} 托盘，已跳过托盘计算。",
+  "calc.palletNoLayer": "{label} 托盘（{pallet}）：单层外箱已超出高度或重量上限，无法码放。",
+  "calc.pallet":
+    "{label} 托盘（{pallet}）：每层 {perLayer} 箱 × {layers} 层 = {perPallet} 箱，总高 {height} {unit}，总重 {weight}，{limit}。",
+  "calc.pallet.byWeight": "受重量限制",
+  "calc.pallet.byHeight": "受高度限制",
+  "calc.noChanges": "没有需要写入的变更。",
+  "calc.snapshotFailed": "未能保存撤销快照，本次未写入任何数据。",
+  "calc.writeFailed": "{label} 写入失败，请稍后重试。",
+  "calc.written": "已写入 {written}/{total} 条记录。",
+  "calc.palletFitFallback": "未选择托盘，无法按托盘适配优化，已改用最小体积。",
+  "calc.noRecords": "当前视图没有记录可以计算。",
+  "calc.startPreview": "预览模式：即将计算 {count} 条记录，不会写入表格。",
+  "calc.start": "即将处理 {count} 条记录。",
+  "calc.unitFromHeader": "列 {fields} 标注的单位为 {unit}，按 {unit} 读写（面板设置为 {panel}）。",
+  "calc.unitConflict": "列 {field} 标注的单位 {unit} 与使用中的单位 {expected} 不符，本次跳过该列。",
+  "calc.failed": "{label} 计算失败：{message}",
+  "calc.failedReason": "计算失败：{message}",
+  "calc.finished":
+    "已完成 {processed}/{total} 条记录计算，用时 {elapsed}（读取 {read}，计算 {plan}，写入 {write}），约 {rate} 条/秒。",
+
+  "event.updated": "已更新 {count} 个字段",
+  "event.pending": "将更新 {count} 个字段（预览）",
+  "event.unchanged": "已是最新，无需修改",
+
+  "result.category.all": "全部",
+  "result.category.error": "错误",
+  "result.category.skipped": "已跳过",
+  "result.category.updated": "更新",
+  "result.category.unchanged": "无变化",
+  "result.filter": "{label} {count}",
+  "result.change": "{field}：{before} → {after}",
+  "result.summary": "显示 {shown}/{total} 条记录，点击可在表格中打开对应记录。",
+  "result.openFailed": "无法打开该记录",
+
+  "constraint.maxGrossWeightKg": "毛重",
+  "constraint.maxSide": "最长边",
+  "constraint.maxGirth": "围长",
+  "constraint.maxLayers": "层数",
+
+  "objective.volume": "最小体积",
+  "objective.surface": "最小表面积",
+  "objective.cubic": "接近立方体",
+  "objective.height": "最低高度",
+  "objective.palletFit": "适配 {pallet} 托盘",
+
+  "audit.kind.mismatch": "不一致",
+  "audit.kind.impossible": "不合理",
+  "audit.kind.missing": "缺数据",
+  "audit.storedEmpty": "{field} 为空，按公式应为 {expected}",
+  "audit.expectedEmpty": "{field} 应为空，当前为 {stored}",
+  "audit.mismatch": "{field} {stored} ≠ 公式 {expected}",
+  "audit.innerTooBig": "中盒 {inner} 放不进外箱 {master}",
+  "audit.netWeight": "{field} {stored} ≠ 产品重量 × Master Qty = {expected}",
+  "audit.finding": "{kind}：{message}",
+  "audit.noPackCheckField": "未找到 Pack Check 字段，请先在字段映射中配置。",
+  "audit.running": "核对中…",
+  "audit.summary": "共核对 {total} 条记录，{flagged} 条存在问题。",
+  "audit.noRecords": "当前视图没有记录可以核对。",
+  "audit.finished": "数据核对完成：{flagged}/{total} 条记录存在问题。",
+  "audit.packCheckUpToDate": "Pack Check 字段已是最新，无需写入。",
+  "audit.failed": "核对失败",
+
+  "history.nothingToUndo": "没有可以撤销的计算记录。",
+  "history.undoPartial": "撤销未完全成功：{failed}/{total} 条记录恢复失败（{records}），再次撤销可重试这些记录。",
+  "history.undone": "已撤销 {time} 的计算：恢复 {records} 条记录、{cells} 个单元格。",
+
+  "packaging.tareFixed": "{tare} g/个",
+  "packaging.tareArea": "{tare} g/m²",
+  "packaging.option": "{name}（{tare}）",
+  "packaging.wall": "壁厚 {wall} mm",
+  "packaging.fitsProduct": "贴合产品，不加余量",
+  "packaging.builtIn": "内置",
+  "packaging.delete": "删除",
+  "packaging.nameRequired": "请填写包材名称。",
+  "packaging.duplicate": "包材“{name}”已存在。",
+  "packaging.negative": "包材重量和壁厚不能为负数。",
+  "packaging.saveFailed": "包材保存失败，请稍后重试。",
+  "packaging.added": "已添加包材：{name}",
+
+  "preset.noSelection": "请先选择一个预设。",
+  "preset.nameRequired": "请填写预设名称。",
+  "preset.duplicate": "预设“{name}”已存在。",
+  "preset.overwriteTitle": "覆盖预设",
+  "preset.overwriteMessage": "预设“{name}”已存在，是否用当前设置覆盖？",
+  "preset.deleteTitle": "删除预设",
+  "preset.deleteMessage": "删除预设“{name}”？当前多维表格中的所有人都将无法再使用它。",
+  "preset.saveFailed": "预设保存失败，请稍后重试。",
+  "preset.saved": "已保存预设：{name}",
+  "preset.renamed": "预设已重命名为：{name}",
+  "preset.deleted": "已删除预设：{name}",
+  "preset.applied": "已应用预设：{name}",
+  "preset.unavailable": "预设“{name}”中的部分包材或选项已不存在，对应设置保留当前值。",
+
+  "casePack.noInner": "Master {master}（无中盒）",
+  "casePack.fillRate": "装载率 {rate}%",
+  "casePack.noSelection": "请先在表格中选中一条记录。",
+  "casePack.noItemSize": "所选记录缺少 Item 尺寸，无法推荐箱规。",
+  "casePack.summary": "{label}：按装载率排序的前 {count} 个组合，点击写入。",
+  "casePack.none": "{label}：范围内没有满足约束的组合，请放宽范围或外箱约束。",
+
+  "casePack.pack": "Inner {inner} / Master {master}",
+  "report.column.itemCode": "Item #",
+  "report.column.recordId": "记录 ID",
+  "report.column.status": "状态",
+  "report.column.reason": "跳过原因",
+  "report.column.itemWidth": "Item 宽 ({unit})",
+  "report.column.itemDepth": "Item 深 ({unit})",
+  "report.column.itemHeight": "Item 高 ({unit})",
+  "report.column.itemWeight": "Item 重量 ({unit})",
+  "report.column.innerQty": "Inner Qty",
+  "report.column.masterQty": "Master Qty",
+  "report.column.innerMaterial": "中盒包材",
+  "report.column.masterMaterial": "外箱包材",
+  "report.column.innerBuffer": "中盒余量 ({unit})",
+  "report.column.masterBuffer": "外箱余量 ({unit})",
+  "report.column.innerWidth": "中盒宽 ({unit})",
+  "report.column.innerDepth": "中盒深 ({unit})",
+  "report.column.innerHeight": "中盒高 ({unit})",
+  "report.column.innerLayout": "中盒排列",
+  "report.column.innerWeight": "中盒重量 ({unit})",
+  "report.column.innersPerMaster": "每外箱中盒数",
+  "report.column.masterWidth": "外箱宽 ({unit})",
+  "report.column.masterDepth": "外箱深 ({unit})",
+  "report.column.masterHeight": "外箱高 ({unit})",
+  "report.column.masterLayout": "外箱排列",
+  "report.column.netWeight": "N.W. ({unit})",
+  "report.column.grossWeight": "G.W. (kg)",
+  "report.column.cbm": "CBM",
+  "report.status.ok": "成功",
+  "report.status.skipped": "已跳过",
+  "report.status.failed": "失败",
+  "warn.disposeListener": "取消表监听失败",
+  "warn.registerListener": "注册 {method} 监听失败",
+  "warn.registerBaseListeners": "注册数据表/视图监听失败",
+  "warn.selection": "获取选中记录失败",
+  "warn.openRecord": "打开记录失败",
+  "memory.recordMissing": "记录 {recordId} 不存在",
+  "mapping.autoMatch": "按名称自动匹配（{name}）",
+  "mapping.autoMatchMissing": "按名称自动匹配（未找到）",
+  "mapping.suggestion": "建议：{name}（相似度 {score}%）",
+  "mapping.loadFailed": "读取字段列表失败",
+  "mapping.saveFailed": "字段映射保存失败",
+  "mapping.conflict": "每个字段只能对应一个逻辑字段，请为以下字段另选一列：{fields}",
+  "mapping.saved": "字段映射已保存",
+  "mapping.resetFailed": "字段映射重置失败",
+  "mapping.reset": "已恢复按名称匹配",
+
+  "preview.record": "记录",
+  "preview.field": "字段",
+  "preview.before": "当前值",
+  "preview.after": "新值",
+  "preview.noChanges": "预览完成：没有需要写入的变更。",
+  "preview.summary": "共 {records} 条记录、{cells} 个单元格将被修改。取消勾选可跳过对应记录。",
+  "preview.noneAccepted": "没有勾选任何记录。",
+  "preview.discarded": "已放弃本次预览，表格未做任何修改。",
+
+  "diagram.topView": "俯视：每层 {width} × {depth}，共 {layers} 层",
+  "diagram.noCanvas": "无法创建画布",
+  "diagram.pngFailed": "PNG 导出失败",
+  "diagram.notInRun": "所选记录不在上次计算结果中，请先对其运行计算或预览。",
+  "diagram.inner": "中盒：{counts} 件",
+  "diagram.masterInners": "外箱：{counts} 个中盒",
+  "diagram.masterItems": "外箱：{counts} 件",
+  "diagram.summary": "{label}：尺寸为外部尺寸，俯视图为单层排布。",
+
+  "pallet.summary": "{pallet}：每层 {perLayer} 箱 × {layers} 层 = {perPallet} 箱",
+
+  "auto.skippedMissing": "自动重算已跳过：缺少字段 {fields}。",
+  "auto.running": "自动重算中…",
+  "auto.detected": "自动重算：检测到 {count} 条记录的输入变更。",
+  "auto.failed": "自动重算失败",
+  "auto.failedLog": "自动重算失败：{message}",
+  "auto.enabled": "已开启自动模式：修改产品尺寸、重量或数量后将自动重算对应记录。",
+  "auto.disabled": "已关闭自动模式。",
+
+  "context.label": "当前表：{table} / 视图：{view}",
+  "context.unknown": "未知",
+  "context.missingFields": "缺少以下字段，功能将受限：{fields}",
+  "context.initialising": "正在初始化插件…",
+  "context.initFailed": "初始化失败",
+
+  "settings.invalidContainer": "自定义货柜尺寸或载重无效，已跳过装柜计算。",
+  "settings.invalidPallet": "托盘尺寸或高度/重量上限无效，已跳过托盘计算。",
+
+  "undo.empty": "暂无可撤销的计算",
+  "undo.last": "上次：{time} · {table} · {records} 条记录（可撤销 {runs} 次）",
+  "undo.unknownTable": "未知表",
+
+  "confirm.ok": "确认",
+  "confirm.cancel": "取消",
+  "confirm.allTitle": "确认计算全部记录",
+  "confirm.allMessage": "未选择任何记录，是否计算当前视图的全部记录？",
+  "confirm.undoTitle": "确认撤销上次计算",
+  "confirm.undoMessage": "将恢复 {time} 计算前的 {cells} 个单元格，是否继续？",
+  "confirm.casePackTitle": "写入箱规",
+  "confirm.casePackMessage": "将 {label} 的 Inner Qty 设为 {inner}、Master Qty 设为 {master}，是否继续？",
+
+  "toast.previewReady": "预览已生成，请确认后写入",
+  "toast.calculated": "计算完成",
+  "toast.written": "写入完成",
+  "toast.undone": "撤销完成",
+  "toast.casePackWritten": "已写入箱规，点击“开始计算”更新尺寸",
+
+  "panel.loadingContext": "正在获取当前表和视图…",
+  "panel.mapping.title": "字段映射",
+  "panel.mapping.hint": "为每个逻辑字段选择当前表中对应的列，保存后按表记住。带 * 的为必需字段。",
+  "panel.mapping.reset": "恢复按名称匹配",
+  "panel.mapping.save": "保存映射",
+  "panel.casePack.title": "箱规推荐",
+  "panel.casePack.hint":
+    "按选中记录的 Item 尺寸和重量，在下列范围内尝试 Inner / Master Qty 组合，并沿用下方的余量、朝向、优化目标和外箱约束。点击一项即写入该记录。",
+  "panel.casePack.masterMin": "Master 最小",
+  "panel.casePack.masterMax": "Master 最大",
+  "panel.casePack.innerMin": "Inner 最小",
+  "panel.casePack.innerMax": "Inner 最大",
+  "panel.casePack.allowNoInner": "也考虑无中盒",
+  "panel.casePack.run": "为选中记录推荐",
+  "panel.audit.title": "数据核对",
+  "panel.audit.hint":
+    "按下方当前设置重算视图内全部记录，与表格中已有的中盒/外箱尺寸和重量比对，列出超出容差的差异、不合理的数值（中盒放不进外箱、N.W. 不等于产品重量 × Master Qty）和缺失的数据。核对不会修改尺寸或重量。",
+  "panel.audit.lengthTolerance": "尺寸容差（箱子单位）",
+  "panel.audit.weightTolerance": "重量容差 (%)",
+  "panel.audit.writePackCheck": "将结果写入 Pack Check 字段",
+  "panel.audit": "核对当前视图",
+  "panel.packaging.title": "包材管理",
+  "panel.packaging.hint":
+    "固定重量按每个箱/袋计；g/m² 按箱子六个面的表面积计。壁厚用于由内径推算外径（外径 = 内径 + 2 × 壁厚），与余量分开计算。新增的包材保存在当前多维表格中，可在 Inner / Master Material 中选择。",
+  "panel.packaging.name": "名称",
+  "panel.packaging.mode": "计重方式",
+  "panel.packaging.perPiece": "g/个",
+  "panel.packaging.tare": "重量",
+  "panel.packaging.wall": "壁厚 (mm)",
+  "panel.packaging.fitsProduct": "贴合产品（如袋装，不加中盒余量）",
+  "panel.packaging.add": "添加包材",
+  "panel.presets": "计算预设",
+  "panel.presets.none": "选择预设…",
+  "panel.presets.delete": "删除",
+  "panel.presets.name": "预设名称，如 Walmart DC",
+  "panel.presets.saveAs": "另存为",
+  "panel.presets.rename": "重命名",
+  "panel.presets.hint":
+    "预设保存下方的余量、单位、包材、朝向、优化目标、外箱约束、装柜、计费重和托盘设置，存于当前多维表格，团队共享。选择预设即应用。",
+  "panel.buffers": "余量设置",
+  "panel.units": "单位设置",
+  "panel.units.itemDimension": "Item 尺寸",
+  "panel.units.itemWeight": "Item 重量",
+  "panel.units.cartonDimension": "箱规尺寸",
+  "panel.units.innerWeight": "中盒毛重",
+  "panel.orientation.any": "任意朝向（6 种）",
+  "panel.orientation.upright": "This Side Up（高度朝上）",
+  "panel.orientation.fixed": "不旋转",
+  "panel.noMasterMaterial": "不计外箱包材",
+  "panel.objective": "优化目标",
+  "panel.objective.volume": "最小体积",
+  "panel.objective.surface": "最小表面积（省纸板）",
+  "panel.objective.cubic": "接近立方体（更稳）",
+  "panel.objective.height": "最低高度（货架陈列）",
+  "panel.objective.palletFit": "适配托盘（使用托盘计算中的托盘）",
+  "panel.constraints": "外箱约束",
+  "panel.constraints.maxGrossWeight": "最大毛重 (kg)",
+  "panel.constraints.maxSide": "最长边",
+  "panel.constraints.maxGirth": "最大围长",
+  "panel.constraints.maxLayers": "最多层数",
+  "panel.constraints.noLimit": "不限",
+  "panel.constraints.hint":
+    "长度按“单位设置”中的箱规尺寸单位填写；围长 = 最长边 + 2 × 另外两边。留空表示不限。",
+  "panel.container": "装柜计算",
+  "panel.dimProfile": "计费重（DIM）",
+  "panel.pallet": "托盘计算",
+  "panel.none": "不计算",
+  "panel.custom": "自定义",
+  "panel.selectAll": "计算当前视图全部记录",
+  "panel.previewFirst": "先预览，确认后再写入",
+  "panel.autoMode": "自动模式：产品尺寸、重量或数量变更后自动重算该记录",
+  "panel.calculate": "开始计算",
+  "panel.calculating": "计算中…",
+  "panel.undo": "撤销上次计算",
+  "panel.preview.title": "写入预览",
+  "panel.preview.discard": "放弃",
+  "panel.preview.apply": "写入已勾选记录",
+  "panel.palletLayer.title": "托盘层排布",
+  "panel.diagram.title": "装箱示意图",
+  "panel.exportSvg": "导出 SVG",
+  "panel.exportPng": "导出 PNG",
+  "panel.results.title": "处理结果",
+  "panel.results.search": "搜索记录、Item # 或原因",
+  "panel.log.title": "日志",
+  "panel.log.placeholder": "暂无日志，点击“开始计算”查看详细结果。",
+  "panel.exportCsv": "导出 CSV",
+  "panel.exportXlsx": "导出 XLSX",
+} as const;
+
+export type MessageKey = keyof typeof zh;
@@ -0,0 +1,79 @@
+import { FIELD_KEYS, OPTIONAL_FIELD_KEYS, type FieldIds } from "../config/fields";
+import { DEFAULT_UNITS, type CalculationOptions } from "../core/calculator";
+import { createMemoryContext } from "../core/memoryAdapter";
+import { BUILT_IN_MATERIALS, type PackagingMaterial } from "../core/packaging";
+import type { FieldMetaLike } from "../utils/field";
+
+/**
+ * Scripted SOL table for the tests: every known field exists under its
+ * display name with the id `fld-<key>`, and rows are written by field key.
+ */
+
+export type TestRow = Partial<Record<keyof FieldIds, unknown>>;
+
+export const fieldId = (key: keyof FieldIds) => `fld-${key}`;
+
+const ALL_FIELDS = { ...FIELD_KEYS, ...OPTIONAL_FIELD_KEYS } as Record<
+  keyof FieldIds,
+  { name: string; type?: number }
+>;
+
+export const SOL_FIELDS: FieldMetaLike[] = Object.entries(ALL_FIELDS).map(([key, info]) => ({
+  id: fieldId(key as keyof FieldIds),
+  name: info.name,
+  type: info.type,
+}));
+
+/** {@link SOL_FIELDS} with some columns under another display name. */
+export function renameFields(names: Partial<Record<keyof FieldIds, string>>): FieldMetaLike[] {
+  return Object.entries(ALL_FIELDS).map(([key, info]) => ({
+    id: fieldId(key as keyof FieldIds),
+    name: names[key as keyof FieldIds] ?? info.name,
+    type: info.type,
+  }));
+}
+
+export function material(id: "Box" | "Poly Bag"): PackagingMaterial {
+  const found = BUILT_IN_MATERIALS.find((entry) => entry.id === id);
+  if (!found) throw new Error(`Unknown material ${id}`);
+  return found;
+}
+
+/** Panel defaults: no buffers, Box inners, no master tare and no extra steps. */
+export function calculationOptions(overrides: Partial<CalculationOptions> = {}): CalculationOptions {
+  return {
+    forceAll: true,
+    innerBuffer: 0,
+    innerBufferUnit: "inch",
+    masterBuffer: 0,
+    masterBufferUnit: "inch",
+    innerMaterial: material("Box"),
+    masterMaterial: null,
+    units: DEFAULT_UNITS,
+    orientationMode: "any",
+    masterConstraints: {},
+    objective: "volume",
+    container: null,
+    pallet: null,
+    dimProfile: null,
+    onLog: () => {},
+    ...overrides,
+  };
+}
+
+/** A table holding `rows` as `rec1`, `rec2`, … with every SOL field present. */
+export function createSolBase(rows: TestRow[], fields: FieldMetaLike[] = SOL_FIELDS) {
+  const base = createMemoryContext({
+    fields,
+    records: rows.map((row, index) => ({
+      recordId: `rec${index + 1}`,
+      fields: Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [fieldId(key as keyof FieldIds), value])
+      ),
+    })),
+  });
+  /** Current value of one cell, by field key. */
+  const cell = (recordId: string, key: keyof FieldIds) =>
+    base.table.records.get(recordId)?.[fieldId(key)];
+  return { ...base, cell };
+}
@@ -0,0 +1,24 @@
+import $ from "jquery";
+import { AUDIT_KIND_LABELS, type AuditRecord } from "../core/audit";
+import { t } from "../i18n";
+
+/** One block per record with findings; records that passed are left out. */
+export function renderAuditList($container: JQuery<HTMLElement>, records: AuditRecord[]) {
+  $container.empty();
+  for (const record of records) {
+    if (!record.findings.length) continue;
+    const $item = $('<div class="audit-item"></div>');
+    $item.append($('<span class="audit-label"></span>').text(record.label));
+    for (const finding of record.findings) {
+      const $finding = $('<div class="audit-finding"></div>');
+      $finding.append(
+        $('<span class="audit-kind"></span>')
+          .addClass(`audit-kind-${finding.kind}`)
+          .text(t(AUDIT_KIND_LABELS[finding.kind]))
+      );
+      $finding.append($("<span></span>").text(finding.message));
+      $item.append($finding);
+    }
+    $container.append($item);
+  }
+}
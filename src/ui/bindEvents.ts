@@ -1,14 +1,167 @@
 import $ from "jquery";
 import { bitable } from "@lark-base-open/js-sdk";
-import { loadPluginContext, type PluginContext } from "../core/context";
-import { runCalculation, type BufferUnit, type InnerMaterial } from "../core/calculator";
+import type { BaseAdapter, RecordModifyEvent, TableAdapter } from "../core/adapter";
+import { buildFieldMap, loadPluginContext, type PluginContext } from "../core/context";
+import {
+  applyRecordPlans,
+  runCalculation,
+  type BufferUnit,
+  type CalculationOptions,
+  type FieldChange,
+  type PackagingDefaults,
+  type RecordArrangements,
+  type RecordEvent,
+  type RecordEventCategory,
+  type RecordPlan,
+  type RecordReport,
+  type UnitSettings,
+} from "../core/calculator";
+import type { ArrangementConstraints, OrientationMode } from "../core/arrangement";
+import {
+  loadCasePackItem,
+  recommendCasePacks,
+  type CasePackItem,
+  type CasePackSuggestion,
+} from "../core/casePack";
+import { CONTAINER_SPECS, type ContainerSpec, type ContainerType } from "../core/container";
+import { DIM_PROFILES, type DimProfileId } from "../core/dimWeight";
+import { loadFieldMapping, saveFieldMapping } from "../core/fieldMapping";
+import { runAudit } from "../core/audit";
+import { needsAutoRun } from "../core/autoMode";
+import { loadHeaderUnits } from "../core/headerUnits";
+import { loadRunHistory, undoLastRun } from "../core/history";
+import { resolveObjectives, type ObjectiveId } from "../core/objectives";
+import { loadPresets, savePresets, type CalculationPreset } from "../core/presets";
+import { filterRecordEvents } from "../core/recordEvents";
+import { buildReportRows, formatCsv } from "../core/report";
+import {
+  BUILT_IN_MATERIALS,
+  loadPackagingMaterials,
+  savePackagingMaterials,
+  type PackagingMaterial,
+  type TareMode,
+} from "../core/packaging";
+import {
+  PALLET_SPECS,
+  type PalletOptions,
+  type PalletPlan,
+  type PalletSpec,
+  type PalletType,
+} from "../core/pallet";
+import {
+  formatDateTime,
+  formatNumber,
+  getLanguage,
+  onLanguageChange,
+  setLanguage,
+  t,
+  type Language,
+} from "../i18n";
+import { renderAuditList } from "./auditList";
+import { renderCasePackList } from "./casePackList";
+import { applyTranslations, detectLanguage, saveLanguage } from "./language";
+import { exportPng, exportSvg, renderPackingDiagram } from "./packingDiagram";
+import { renderMaterialOptions, renderPackagingList } from "./packagingPanel";
+import { renderPalletLayer } from "./palletView";
+import { applyPresetValues, readPresetValues, renderPresetOptions } from "./presetPanel";
+import { getAcceptedRecordIds, renderPreviewTable } from "./previewTable";
+import { renderResultFilters, renderResultList } from "./resultList";
+import { readFieldMappingPanel, renderFieldMappingPanel } from "./fieldMappingPanel";
+import { downloadBlob } from "../utils/download";
+import type { FieldMetaLike } from "../utils/field";
 import { showError, showToast } from "../utils/logger";
+import {
+  convertInchesToLength,
+  convertLengthToInches,
+  formatUnit,
+} from "../utils/numbers";
+import { createXlsxBlob } from "../utils/xlsx";
 
 function parseNumber($input: JQuery<HTMLInputElement>): number {
   const value = Number($input.val());
   return Number.isFinite(value) ? value : 0;
 }
 
+function readContainerSpec(): ContainerSpec | null {
+  const type = $("#containerType").val() as ContainerType | "";
+  if (!type) return null;
+  if (type !== "custom") return CONTAINER_SPECS[type];
+  const spec: ContainerSpec = {
+    type,
+    lengthCm: parseNumber($("#containerLength") as JQuery<HTMLInputElement>),
+    widthCm: parseNumber($("#containerWidth") as JQuery<HTMLInputElement>),
+    heightCm: parseNumber($("#containerHeight") as JQuery<HTMLInputElement>),
+    maxPayloadKg: parseNumber($("#containerPayload") as JQuery<HTMLInputElement>),
+  };
+  const valid = [spec.lengthCm, spec.widthCm, spec.heightCm, spec.maxPayloadKg].every(
+    (value) => value > 0
+  );
+  return valid ? spec : null;
+}
+
+function readUnitSettings(): UnitSettings {
+  return {
+    itemDimension: $("#itemDimensionUnit").val() as UnitSettings["itemDimension"],
+    itemWeight: $("#itemWeightUnit").val() as UnitSettings["itemWeight"],
+    cartonDimension: $("#cartonDimensionUnit").val() as UnitSettings["cartonDimension"],
+    innerWeight: $("#innerWeightUnit").val() as UnitSettings["innerWeight"],
+    netWeight: $("#netWeightUnit").val() as UnitSettings["netWeight"],
+  };
+}
+
+/** Formats inches in the carton dimension unit, e.g. "12.00 cm". */
+function createLengthFormatter(units: UnitSettings): (inches: number) => string {
+  const unit = formatUnit(units.cartonDimension);
+  return (inches) =>
+    `${formatNumber(convertInchesToLength(inches, units.cartonDimension), 2)} ${unit}`;
+}
+
+/** Empty inputs read as 0, which the search treats as "no limit". */
+function readMasterConstraints(units: UnitSettings): ArrangementConstraints {
+  const toInches = (id: string) =>
+    convertLengthToInches(parseNumber($(id) as JQuery<HTMLInputElement>), units.cartonDimension);
+  return {
+    maxGrossWeightKg: parseNumber($("#maxGrossWeight") as JQuery<HTMLInputElement>),
+    maxSide: toInches("#maxSide"),
+    maxGirth: toInches("#maxGirth"),
+    maxLayers: Math.floor(parseNumber($("#maxLayers") as JQuery<HTMLInputElement>)),
+  };
+}
+
+function readPalletOptions(): PalletOptions | null {
+  const type = $("#palletType").val() as PalletType | "";
+  if (!type) return null;
+  const spec: PalletSpec =
+    type !== "custom"
+      ? PALLET_SPECS[type]
+      : {
+          type,
+          lengthCm: parseNumber($("#palletLength") as JQuery<HTMLInputElement>),
+          widthCm: parseNumber($("#palletWidth") as JQuery<HTMLInputElement>),
+          deckHeightCm: parseNumber($("#palletDeckHeight") as JQuery<HTMLInputElement>),
+          weightKg: parseNumber($("#palletOwnWeight") as JQuery<HTMLInputElement>),
+        };
+  const maxHeightCm = parseNumber($("#palletMaxHeight") as JQuery<HTMLInputElement>);
+  const maxWeightKg = parseNumber($("#palletMaxWeight") as JQuery<HTMLInputElement>);
+  const valid =
+    spec.lengthCm > 0 &&
+    spec.widthCm > 0 &&
+    spec.deckHeightCm >= 0 &&
+    spec.weightKg >= 0 &&
+    maxHeightCm > spec.deckHeightCm &&
+    maxWeightKg > spec.weightKg;
+  return valid ? { spec, maxHeightCm, maxWeightKg } : null;
+}
+
+/** Panel settings shared by manual and automatic runs. */
+type PanelSettings = Omit<
+  CalculationOptions,
+  "forceAll" | "dryRun" | "recordIds" | "onLog" | "onPalletPlan" | "onArrangement" | "onEvent"
+>;
+
+/** Quiet period after the last edit before auto mode recalculates. */
+const AUTO_DEBOUNCE_MS = 1500;
+
 function appendLog($list: JQuery<HTMLElement>, message: string) {
   const $item = $("<li></li>");
   $item.text(message);
@@ -31,10 +184,46 @@ export function bindUIEvents() {
   const $logPlaceholder = $("#logPlaceholder");
   const $calculateButton = $("#calculateButton");
   const $confirmOverlay = $("#confirmOverlay");
+  const $confirmTitle = $("#confirmTitle");
   const $confirmMessage = $("#confirmMessage");
   const $confirmOk = $("#confirmOk");
   const $confirmCancel = $("#confirmCancel");
   const confirmOverlayEl = $confirmOverlay.get(0);
+  const $palletSection = $("#palletSection");
+  const $palletRecordSelect = $("#palletRecordSelect");
+  const $palletSummary = $("#palletSummary");
+  const palletLayerViewEl = $("#palletLayerView").get(0);
+  const $previewSection = $("#previewSection");
+  const $previewSummary = $("#previewSummary");
+  const $previewTable = $("#previewTable");
+  const $previewApply = $("#previewApply");
+  const $previewDiscard = $("#previewDiscard");
+  const $undoButton = $("#undoButton");
+  const $undoStatus = $("#undoStatus");
+  const $fieldMappingSection = $("#fieldMappingSection");
+  const $fieldMappingList = $("#fieldMappingList");
+  const $packagingList = $("#packagingList");
+  const $innerMaterial = $("#innerMaterial");
+  const $masterMaterial = $("#masterMaterial");
+  const $casePackButton = $("#casePackButton");
+  const $auditButton = $("#auditButton");
+  const $auditSummary = $("#auditSummary");
+  const $auditList = $("#auditList");
+  const $casePackSummary = $("#casePackSummary");
+  const $casePackList = $("#casePackList");
+  const $diagramSection = $("#diagramSection");
+  const $diagramSummary = $("#diagramSummary");
+  const $diagramView = $("#diagramView");
+  const $diagramExport = $("#diagramExportSvg, #diagramExportPng");
+  const $reportExport = $("#reportExportCsv, #reportExportXlsx");
+  const $languageSelect = $("#languageSelect");
+  const $presetSelect = $("#presetSelect");
+  const $presetName = $("#presetName");
+  const $resultSection = $("#resultSection");
+  const $resultFilters = $("#resultFilters");
+  const $resultSearch = $("#resultSearch");
+  const $resultSummary = $("#resultSummary");
+  const $resultList = $("#resultList");
 
   let context: PluginContext | null = null;
   let missingFields: string[] = [];
@@ -42,6 +231,24 @@ export function bindUIEvents() {
   let listenersRegistered = false;
   let refreshScheduled = false;
   let tableListenerDisposers: Array<() => void> = [];
+  let palletPlans: Array<{ label: string; plan: PalletPlan }> = [];
+  let previewPlans: RecordPlan[] = [];
+  let mappingTableId = "";
+  let packagingMaterials: PackagingMaterial[] = BUILT_IN_MATERIALS;
+  let presets: CalculationPreset[] = [];
+  let casePackItem: CasePackItem | null = null;
+  let casePackSuggestions: CasePackSuggestion[] = [];
+  let diagramEntries = new Map<
+    string,
+    { label: string; cartons: RecordArrangements; units: UnitSettings }
+  >();
+  let diagramSvg: SVGSVGElement | null = null;
+  let diagramFileName = "";
+  let report: { reports: RecordReport[]; units: UnitSettings } | null = null;
+  let results: { tableId: string; events: RecordEvent[] } | null = null;
+  let resultCategory: RecordEventCategory | null = null;
+  const autoRecordIds = new Set<string>();
+  let autoTimer: number | null = null;
 
   function disposeTableListeners() {
     if (!tableListenerDisposers.length) return;
@@ -49,54 +256,105 @@ export function bindUIEvents() {
       try {
         dispose();
       } catch (err) {
-        console.warn("取消表监听失败", err);
+        console.warn(t("warn.disposeListener"), err);
       }
     }
     tableListenerDisposers = [];
   }
 
-  function registerTableListeners(table: any) {
+  function registerTableListeners(table: TableAdapter) {
     disposeTableListeners();
-    const register = (target: any, method: string, handler: () => void) => {
-      const fn = target?.[method];
-      if (typeof fn !== "function") return;
+    const register = (method: string, subscribe: () => () => void) => {
       try {
-        const disposer = fn.call(target, handler);
-        if (typeof disposer === "function") {
-          tableListenerDisposers.push(disposer);
-        }
+        tableListenerDisposers.push(subscribe());
       } catch (err) {
-        console.warn(`注册 ${method} 监听失败`, err);
+        console.warn(t("warn.registerListener", { method }), err);
       }
     };
-
-    register(table, "onFieldChange", () => {
-      void refreshContext();
-    });
-    register(table, "onRecordChange", () => {
-      scheduleRefresh();
-    });
-    register(table, "onCellValueChange", () => {
-      scheduleRefresh();
-    });
-    register(table, "onViewChange", () => {
+    const onFieldsChanged = () => {
       void refreshContext();
-    });
+    };
+
+    register("onFieldAdd", () => table.onFieldAdd(onFieldsChanged));
+    register("onFieldModify", () => table.onFieldModify(onFieldsChanged));
+    register("onFieldDelete", () => table.onFieldDelete(onFieldsChanged));
+    register("onRecordAdd", () => table.onRecordAdd(scheduleRefresh));
+    register("onRecordDelete", () => table.onRecordDelete(scheduleRefresh));
+    register("onRecordModify", () =>
+      table.onRecordModify((event) => {
+        scheduleRefresh();
+        handleRecordModify(event);
+      })
+    );
+  }
+
+  function handleRecordModify(event: RecordModifyEvent) {
+    if (!context || !$("#autoModeCheckbox").prop("checked")) return;
+    if (!needsAutoRun(event.data, context.fieldIds)) return;
+    autoRecordIds.add(event.data.recordId);
+    scheduleAutoRun();
+  }
+
+  function scheduleAutoRun() {
+    if (autoTimer != null) window.clearTimeout(autoTimer);
+    autoTimer = window.setTimeout(() => {
+      autoTimer = null;
+      void runAutoCalculation();
+    }, AUTO_DEBOUNCE_MS);
+  }
+
+  async function runAutoCalculation() {
+    if (!context || !autoRecordIds.size) return;
+    if (busy) {
+      scheduleAutoRun();
+      return;
+    }
+    if (missingFields.length) {
+      withLogs(t("auto.skippedMissing", { fields: missingFields.join(", ") }));
+      autoRecordIds.clear();
+      return;
+    }
+
+    const recordIds = [...autoRecordIds];
+    autoRecordIds.clear();
+    busy = true;
+    $calculateButton.prop("disabled", true).text(t("auto.running"));
+    withLogs(t("auto.detected", { count: recordIds.length }));
+    try {
+      await runCalculation(context, {
+        ...readPanelSettings(),
+        forceAll: false,
+        recordIds,
+        onLog: withLogs,
+        onArrangement: addDiagram,
+      });
+    } catch (err) {
+      const message = (err as Error).message ?? t("auto.failed");
+      withLogs(t("auto.failedLog", { message }));
+      showError(message);
+    } finally {
+      busy = false;
+      $calculateButton.prop("disabled", false).text(t("panel.calculate"));
+      void refreshUndoState();
+    }
   }
 
   function updateContextLabel(ctx: PluginContext | null) {
     if (!ctx) {
-      $contextLabel.text("正在获取当前表和视图…");
+      $contextLabel.text(t("panel.loadingContext"));
       return;
     }
-    const tableName = ctx.tableName || "未知";
-    const viewName = ctx.viewName || "未知";
-    $contextLabel.text(`当前表：${tableName} / 视图：${viewName}`);
+    $contextLabel.text(
+      t("context.label", {
+        table: ctx.tableName || t("context.unknown"),
+        view: ctx.viewName || t("context.unknown"),
+      })
+    );
   }
 
   function updateMissingFieldTips(list: string[]) {
     if (list.length) {
-      $missing.text(`缺少以下字段，功能将受限：${list.join(", ")}`);
+      $missing.text(t("context.missingFields", { fields: list.join(", ") }));
       $missing.show();
     } else {
       $missing.hide();
@@ -113,8 +371,9 @@ export function bindUIEvents() {
     }, 200);
   }
 
-  function showConfirmAllRecords(message: string): Promise<boolean> {
+  function showConfirm(title: string, message: string): Promise<boolean> {
     return new Promise((resolve) => {
+      $confirmTitle.text(title);
       $confirmMessage.text(message);
       $confirmOverlay.attr("hidden", false);
 
@@ -150,7 +409,7 @@ export function bindUIEvents() {
   async function refreshContext(options: RefreshOptions = {}) {
     const { showLoading = false } = options;
     if (showLoading) {
-      $status.text("正在初始化插件…").removeClass("error").show();
+      $status.text(t("context.initialising")).removeClass("error").show();
     }
 
     try {
@@ -159,14 +418,18 @@ export function bindUIEvents() {
       missingFields = missing;
       updateContextLabel(ctx);
       updateMissingFieldTips(missing);
+      void refreshUndoState();
       registerTableListeners(ctx.table);
+      if ($fieldMappingSection.prop("open") && ctx.tableId !== mappingTableId) {
+        void renderFieldMapping();
+      }
       if (showLoading) {
         $status.empty().removeClass("error").hide();
       }
 
-      registerBaseListeners();
+      registerBaseListeners(ctx.base);
     } catch (err) {
-      const message = (err as Error).message ?? "初始化失败";
+      const message = (err as Error).message ?? t("context.initFailed");
       if (showLoading) {
         $status.text(message).addClass("error").show();
       }
@@ -174,22 +437,25 @@ export function bindUIEvents() {
     }
   }
 
-  function registerBaseListeners() {
+  function registerBaseListeners(base: BaseAdapter) {
     if (listenersRegistered) return;
     listenersRegistered = true;
 
     try {
-      bitable.base.onTableChange?.(() => {
+      base.onTableAdd(() => {
         void refreshContext();
       });
-      bitable.base.onViewChange?.(() => {
+      base.onTableDelete(() => {
         void refreshContext();
       });
-      bitable.base.onSelectionChange?.(() => {
+      // Switching views (or tables) surfaces as a selection change.
+      base.onSelectionChange((event) => {
         scheduleRefresh();
+        const recordId = event.data.recordId;
+        if (recordId) showDiagram(recordId);
       });
     } catch (err) {
-      console.warn("注册表/视图监听失败", err);
+      console.warn(t("warn.registerBaseListeners"), err);
     }
   }
 
@@ -205,64 +471,821 @@ export function bindUIEvents() {
     $logPlaceholder.show();
   }
 
+  async function renderFieldMapping() {
+    if (!context) return;
+    try {
+      const [fieldMetas, mapping] = await Promise.all([
+        context.table.getFieldMetaList() as Promise<FieldMetaLike[]>,
+        loadFieldMapping(context.tableId),
+      ]);
+      renderFieldMappingPanel($fieldMappingList, fieldMetas, mapping);
+      mappingTableId = context.tableId;
+    } catch (err) {
+      const message = (err as Error).message ?? t("mapping.loadFailed");
+      showError(message);
+    }
+  }
+
+  function renderPackaging() {
+    renderPackagingList($packagingList, packagingMaterials);
+    renderMaterialOptions($innerMaterial, packagingMaterials);
+    renderMaterialOptions($masterMaterial, packagingMaterials, t("panel.noMasterMaterial"));
+  }
+
+  async function loadPackaging() {
+    packagingMaterials = await loadPackagingMaterials();
+    renderPackaging();
+  }
+
+  function renderPresets(selectedId = String($presetSelect.val() ?? "")) {
+    renderPresetOptions($presetSelect, presets, selectedId);
+  }
+
+  async function loadPresetList() {
+    presets = await loadPresets();
+    renderPresets();
+  }
+
+  /** Saves `next` and shows it; the list is shared, so callers reload it first. */
+  async function storePresets(next: CalculationPreset[], selectedId: string): Promise<boolean> {
+    if (!(await savePresets(next))) {
+      showError(t("preset.saveFailed"));
+      return false;
+    }
+    presets = await loadPresets();
+    renderPresets(selectedId);
+    return true;
+  }
+
+  function selectedPreset(): CalculationPreset | null {
+    const id = String($presetSelect.val() ?? "");
+    return presets.find((preset) => preset.id === id) ?? null;
+  }
+
+  function readInnerMaterial(): PackagingMaterial {
+    const id = $innerMaterial.val() as string;
+    return packagingMaterials.find((material) => material.id === id) ?? BUILT_IN_MATERIALS[0];
+  }
+
+  function readMasterMaterial(): PackagingMaterial | null {
+    const id = $masterMaterial.val() as string;
+    return packagingMaterials.find((material) => material.id === id) ?? null;
+  }
+
+  async function refreshUndoState() {
+    const history = context ? await loadRunHistory(context) : [];
+    const last = history[history.length - 1];
+    if (!last) {
+      $undoButton.prop("disabled", true);
+      $undoStatus.text(t("undo.empty"));
+      return;
+    }
+    $undoButton.prop("disabled", busy);
+    $undoStatus.text(
+      t("undo.last", {
+        time: formatDateTime(last.createdAt),
+        table: last.tableName || t("undo.unknownTable"),
+        records: last.recordCount,
+        runs: history.length,
+      })
+    );
+  }
+
+  function resetPreview() {
+    previewPlans = [];
+    $previewTable.empty();
+    $previewSummary.empty();
+    $previewSection.prop("hidden", true);
+  }
+
+  function showPreview(plans: RecordPlan[]) {
+    previewPlans = plans.filter((plan) => plan.changes.length > 0);
+    if (!previewPlans.length) {
+      withLogs(t("preview.noChanges"));
+      return;
+    }
+    const changeCount = previewPlans.reduce((sum, plan) => sum + plan.changes.length, 0);
+    $previewSummary.text(
+      t("preview.summary", { records: previewPlans.length, cells: changeCount })
+    );
+    renderPreviewTable($previewTable, previewPlans);
+    $previewSection.prop("hidden", false);
+  }
+
+  function resetResults() {
+    results = null;
+    resultCategory = null;
+    $resultSearch.val("");
+    $resultFilters.empty();
+    $resultSummary.empty();
+    $resultList.empty();
+    $resultSection.prop("hidden", true);
+  }
+
+  /** Renders the events of the last run matching the category toggle and search box. */
+  function renderResults() {
+    if (!results) return;
+    const { events } = results;
+    const shown = filterRecordEvents(events, resultCategory, String($resultSearch.val() ?? ""));
+    renderResultFilters($resultFilters, events, resultCategory);
+    renderResultList($resultList, shown);
+    $resultSummary.text(t("result.summary", { shown: shown.length, total: events.length }));
+  }
+
+  function showResults(tableId: string, events: RecordEvent[]) {
+    if (!events.length) return;
+    results = { tableId, events };
+    $resultSection.prop("hidden", false);
+    renderResults();
+  }
+
+  function showPalletPlan(index: number) {
+    const entry = palletPlans[index];
+    if (!entry || !palletLayerViewEl) return;
+    const { plan } = entry;
+    $palletSummary.text(
+      t("pallet.summary", {
+        pallet: plan.spec.type,
+        perLayer: plan.cartonsPerLayer,
+        layers: plan.layers,
+        perPallet: plan.cartonsPerPallet,
+      })
+    );
+    renderPalletLayer(palletLayerViewEl, plan);
+  }
+
+  function resetPalletPlans() {
+    palletPlans = [];
+    $palletRecordSelect.empty();
+    $palletSummary.empty();
+    $("#palletLayerView").empty();
+    $palletSection.prop("hidden", true);
+  }
+
+  function addPalletPlan(label: string, plan: PalletPlan) {
+    palletPlans.push({ label, plan });
+    $palletRecordSelect.append($("<option></option>").val(palletPlans.length - 1).text(label));
+    if (palletPlans.length === 1) {
+      $palletSection.prop("hidden", false);
+      showPalletPlan(0);
+    }
+  }
+
+  function resetDiagram() {
+    diagramEntries = new Map();
+    diagramSvg = null;
+    $diagramView.empty();
+    $diagramSummary.empty();
+    $diagramExport.prop("disabled", true);
+    $diagramSection.prop("hidden", true);
+  }
+
+  /** Draws the cartons chosen for `recordId` in the last calculation or preview. */
+  function showDiagram(recordId: string) {
+    if (!diagramEntries.size) return;
+    const entry = diagramEntries.get(recordId);
+    const viewEl = $diagramView.get(0);
+    if (!entry || !viewEl) {
+      diagramSvg = null;
+      $diagramView.empty();
+      $diagramExport.prop("disabled", true);
+      $diagramSummary.text(t("diagram.notInRun"));
+      return;
+    }
+
+    const { label, cartons, units } = entry;
+    const list = [];
+    if (cartons.inner) {
+      list.push({
+        title: t("diagram.inner", { counts: cartons.inner.counts.join(" × ") }),
+        arrangement: cartons.inner,
+      });
+    }
+    list.push({
+      title: t(cartons.inner ? "diagram.masterInners" : "diagram.masterItems", {
+        counts: cartons.master.counts.join(" × "),
+      }),
+      arrangement: cartons.master,
+    });
+    diagramSvg = renderPackingDiagram(viewEl, list, createLengthFormatter(units));
+    diagramFileName = `packing-${label.replace(/[\\/:*?"<>|\s]+/g, "_")}`;
+    $diagramSummary.text(t("diagram.summary", { label }));
+    $diagramExport.prop("disabled", false);
+  }
+
+  function addDiagram(
+    recordId: string,
+    label: string,
+    cartons: RecordArrangements,
+    units: UnitSettings
+  ) {
+    diagramEntries.set(recordId, { label, cartons, units });
+    if (diagramEntries.size === 1) {
+      $diagramSection.prop("hidden", false);
+      showDiagram(recordId);
+    }
+  }
+
+  /** Reads the calculation settings from the panel, logging invalid ones. */
+  function readPanelSettings(): PanelSettings {
+    const bufferUnit = $("#bufferUnit").val() as BufferUnit;
+    const units = readUnitSettings();
+    const container = readContainerSpec();
+    if ($("#containerType").val() === "custom" && !container) {
+      withLogs(t("settings.invalidContainer"));
+    }
+    const dimProfileId = $("#dimProfile").val() as DimProfileId | "";
+    const pallet = readPalletOptions();
+    if ($("#palletType").val() && !pallet) {
+      withLogs(t("settings.invalidPallet"));
+    }
+    return {
+      innerBuffer: parseNumber($("#innerBuffer") as JQuery<HTMLInputElement>),
+      innerBufferUnit: bufferUnit,
+      masterBuffer: parseNumber($("#masterBuffer") as JQuery<HTMLInputElement>),
+      masterBufferUnit: bufferUnit,
+      innerMaterial: readInnerMaterial(),
+      masterMaterial: readMasterMaterial(),
+      materials: packagingMaterials,
+      units,
+      orientationMode: $("#orientationMode").val() as OrientationMode,
+      masterConstraints: readMasterConstraints(units),
+      objective: $("#objective").val() as ObjectiveId,
+      container,
+      pallet,
+      dimProfile: dimProfileId ? DIM_PROFILES[dimProfileId] : null,
+    };
+  }
+
   $calculateButton.on("click", async () => {
     if (!context) {
-      showError("插件尚未准备就绪，稍后再试。");
+      showError(t("error.notReady"));
       return;
     }
     if (busy) return;
     if (missingFields.length) {
-      showError(`缺少字段，无法计算：${missingFields.join(", ")}`);
+      showError(t("error.missingForCalc", { fields: missingFields.join(", ") }));
       return;
     }
 
     const forceAll = $("#selectAllCheckbox").prop("checked");
+    const dryRun = Boolean($("#previewCheckbox").prop("checked"));
 
     if (!forceAll) {
       try {
         const selectedIds = await context.view.getSelectedRecordIdList();
         const hasSelection = Array.isArray(selectedIds) && selectedIds.some(Boolean);
         if (!hasSelection) {
-          const confirmed = await showConfirmAllRecords(
-            "未选择任何记录，是否计算当前视图的全部记录？"
-          );
+          const confirmed = await showConfirm(t("confirm.allTitle"), t("confirm.allMessage"));
           if (!confirmed) {
             return;
           }
         }
       } catch (err) {
-        console.warn("获取选中记录失败", err);
+        console.warn(t("warn.selection"), err);
       }
     }
 
     busy = true;
-    $calculateButton.prop("disabled", true).text("计算中…");
+    $calculateButton.prop("disabled", true).text(t("panel.calculating"));
     resetLogs();
+    resetPalletPlans();
+    resetPreview();
+    resetDiagram();
+    resetResults();
+    report = null;
+    $reportExport.prop("disabled", true);
 
-    const innerBuffer = parseNumber($("#innerBuffer") as JQuery<HTMLInputElement>);
-    const masterBuffer = parseNumber($("#masterBuffer") as JQuery<HTMLInputElement>);
-    const bufferUnit = $("#bufferUnit").val() as BufferUnit;
-    const innerMaterial = $("#innerMaterial").val() as InnerMaterial;
+    const settings = readPanelSettings();
+    const events: RecordEvent[] = [];
 
     try {
-      await runCalculation(context, {
+      const result = await runCalculation(context, {
+        ...settings,
         forceAll,
-        innerBuffer,
-        innerBufferUnit: bufferUnit,
-        masterBuffer,
-        masterBufferUnit: bufferUnit,
-        innerMaterial,
+        dryRun,
         onLog: withLogs,
+        onPalletPlan: addPalletPlan,
+        onArrangement: addDiagram,
+        onEvent: (event) => events.push(event),
       });
-      showToast("计算完成", "success");
+      showResults(context.tableId, events);
+      if (result.reports.length) {
+        report = { reports: result.reports, units: result.units };
+        $reportExport.prop("disabled", false);
+      }
+      if (dryRun) {
+        showPreview(result.plans);
+        showToast(t("toast.previewReady"), "info");
+      } else {
+        showToast(t("toast.calculated"), "success");
+      }
     } catch (err) {
-      const message = (err as Error).message ?? "计算失败";
+      const message = (err as Error).message ?? t("error.calculateFailed");
       showError(message);
     } finally {
       busy = false;
-      $calculateButton.prop("disabled", false).text("开始计算");
+      $calculateButton.prop("disabled", false).text(t("panel.calculate"));
+      void refreshUndoState();
+    }
+  });
+
+  $previewApply.on("click", async () => {
+    if (!context || busy || !previewPlans.length) return;
+    const accepted = getAcceptedRecordIds($previewTable);
+    const plans = previewPlans.filter((plan) => accepted.has(plan.recordId));
+    if (!plans.length) {
+      showError(t("preview.noneAccepted"));
+      return;
     }
+
+    busy = true;
+    $previewApply.prop("disabled", true);
+    $calculateButton.prop("disabled", true);
+    try {
+      await applyRecordPlans(context, plans, withLogs);
+      resetPreview();
+      showToast(t("toast.written"), "success");
+    } catch (err) {
+      const message = (err as Error).message ?? t("error.writeFailed");
+      showError(message);
+    } finally {
+      busy = false;
+      $previewApply.prop("disabled", false);
+      $calculateButton.prop("disabled", false);
+      void refreshUndoState();
+    }
+  });
+
+  $fieldMappingSection.on("toggle", () => {
+    if ($fieldMappingSection.prop("open")) {
+      void renderFieldMapping();
+    }
+  });
+
+  $("#fieldMappingSave").on("click", async () => {
+    if (!context) return;
+    const mapping = readFieldMappingPanel($fieldMappingList);
+    try {
+      const { conflicts } = buildFieldMap(await context.table.getFieldMetaList(), mapping);
+      if (conflicts.length) {
+        showError(t("mapping.conflict", { fields: conflicts.join(", ") }));
+        return;
+      }
+    } catch (err) {
+      showError((err as Error).message ?? t("mapping.loadFailed"));
+      return;
+    }
+    const saved = await saveFieldMapping(context.tableId, mapping);
+    if (!saved) {
+      showError(t("mapping.saveFailed"));
+      return;
+    }
+    showToast(t("mapping.saved"), "success");
+    await refreshContext();
+  });
+
+  $("#fieldMappingReset").on("click", async () => {
+    if (!context) return;
+    const saved = await saveFieldMapping(context.tableId, {});
+    if (!saved) {
+      showError(t("mapping.resetFailed"));
+      return;
+    }
+    showToast(t("mapping.reset"), "success");
+    await refreshContext();
+  });
+
+  $undoButton.on("click", async () => {
+    if (!context || busy) return;
+    const history = await loadRunHistory(context);
+    const last = history[history.length - 1];
+    if (!last) return;
+    const confirmed = await showConfirm(
+      t("confirm.undoTitle"),
+      t("confirm.undoMessage", { time: formatDateTime(last.createdAt), cells: last.cells.length })
+    );
+    if (!confirmed) return;
+
+    busy = true;
+    $undoButton.prop("disabled", true);
+    $calculateButton.prop("disabled", true);
+    resetPreview();
+    try {
+      const result = await undoLastRun(context, withLogs);
+      if (result?.failed.length) {
+        showError(
+          t("history.undoPartial", {
+            failed: result.failed.length,
+            total: result.snapshot.recordCount,
+            records: result.failed.join(", "),
+          })
+        );
+      } else if (result) {
+        showToast(t("toast.undone"), "success");
+      }
+    } catch (err) {
+      const message = (err as Error).message ?? t("error.undoFailed");
+      showError(message);
+    } finally {
+      busy = false;
+      $calculateButton.prop("disabled", false);
+      void refreshUndoState();
+    }
+  });
+
+  $casePackButton.on("click", async () => {
+    if (!context || busy) return;
+    try {
+      await suggestCasePacks(context);
+    } catch (err) {
+      const message = (err as Error).message ?? t("error.casePackFailed");
+      showError(message);
+    }
+  });
+
+  async function suggestCasePacks(ctx: PluginContext) {
+    const selectedIds = (await ctx.view.getSelectedRecordIdList()).filter(Boolean);
+    const recordId = selectedIds[0];
+    if (!recordId) {
+      showError(t("casePack.noSelection"));
+      return;
+    }
+
+    const readInput = (id: string) => parseNumber($(id) as JQuery<HTMLInputElement>);
+    const panelUnits = readUnitSettings();
+    const columns = await loadHeaderUnits(ctx.table, panelUnits, ctx.fieldIds);
+    columns.messages.forEach((message) => withLogs(message));
+    const bufferUnit = $("#bufferUnit").val() as BufferUnit;
+    const packaging: PackagingDefaults = {
+      innerMaterial: readInnerMaterial(),
+      materials: packagingMaterials,
+      innerBuffer: readInput("#innerBuffer"),
+      innerBufferUnit: bufferUnit,
+      masterBuffer: readInput("#masterBuffer"),
+      masterBufferUnit: bufferUnit,
+    };
+    const item = await loadCasePackItem(ctx, recordId, columns, packaging, withLogs);
+    if (!item) {
+      showError(t("casePack.noItemSize"));
+      return;
+    }
+
+    const objectives = resolveObjectives(
+      $("#objective").val() as ObjectiveId,
+      readPalletOptions()?.spec ?? null
+    );
+    const suggestions = recommendCasePacks(item, {
+      masterMin: readInput("#casePackMasterMin"),
+      masterMax: readInput("#casePackMasterMax"),
+      innerMin: readInput("#casePackInnerMin"),
+      innerMax: readInput("#casePackInnerMax"),
+      allowNoInner: Boolean($("#casePackAllowNoInner").prop("checked")),
+      masterMaterial: readMasterMaterial(),
+      orientationMode: $("#orientationMode").val() as OrientationMode,
+      innerObjective: objectives.inner,
+      masterObjective: objectives.master,
+      masterConstraints: readMasterConstraints(panelUnits),
+      limit: 10,
+    });
+
+    casePackItem = item;
+    casePackSuggestions = suggestions;
+    renderCasePackList($casePackList, suggestions, createLengthFormatter(columns.units));
+    $casePackSummary.text(
+      suggestions.length
+        ? t("casePack.summary", { label: item.label, count: suggestions.length })
+        : t("casePack.none", { label: item.label })
+    );
+  }
+
+  $casePackList.on("click", ".case-pack-item", async function () {
+    if (!context || busy || !casePackItem) return;
+    const suggestion = casePackSuggestions[Number($(this).attr("data-index"))];
+    if (!suggestion) return;
+    const { fieldIds } = context;
+    const item = casePackItem;
+    const confirmed = await showConfirm(
+      t("confirm.casePackTitle"),
+      t("confirm.casePackMessage", {
+        label: item.label,
+        inner: suggestion.innerQty,
+        master: suggestion.masterQty,
+      })
+    );
+    if (!confirmed) return;
+
+    const changes: FieldChange[] = [
+      { key: "innerQty", fieldId: fieldIds.innerQty, before: item.innerQtyCell, after: suggestion.innerQty },
+      { key: "masterQty", fieldId: fieldIds.masterQty, before: item.masterQtyCell, after: suggestion.masterQty },
+    ];
+    busy = true;
+    try {
+      const written = await applyRecordPlans(
+        context,
+        [{ recordId: item.recordId, label: item.label, changes }],
+        withLogs
+      );
+      if (written) {
+        showToast(t("toast.casePackWritten"), "success");
+      }
+    } catch (err) {
+      const message = (err as Error).message ?? t("error.writeFailed");
+      showError(message);
+    } finally {
+      busy = false;
+      void refreshUndoState();
+    }
+  });
+
+  $auditButton.on("click", async () => {
+    if (!context || busy) return;
+    if (missingFields.length) {
+      showError(t("error.missingForAudit", { fields: missingFields.join(", ") }));
+      return;
+    }
+    const writePackCheck = Boolean($("#auditWritePackCheck").prop("checked"));
+    if (writePackCheck && !context.fieldIds.packCheck) {
+      showError(t("audit.noPackCheckField"));
+      return;
+    }
+
+    busy = true;
+    $auditButton.prop("disabled", true).text(t("audit.running"));
+    $auditList.empty();
+    $auditSummary.empty();
+    try {
+      const result = await runAudit(context, {
+        ...readPanelSettings(),
+        tolerances: {
+          length: parseNumber($("#auditLengthTolerance") as JQuery<HTMLInputElement>),
+          weightRatio: parseNumber($("#auditWeightTolerance") as JQuery<HTMLInputElement>) / 100,
+        },
+      });
+      const flagged = result.records.filter((record) => record.findings.length > 0);
+      renderAuditList($auditList, result.records);
+      $auditSummary.text(
+        result.records.length
+          ? t("audit.summary", { total: result.records.length, flagged: flagged.length })
+          : t("audit.noRecords")
+      );
+      withLogs(t("audit.finished", { total: result.records.length, flagged: flagged.length }));
+
+      if (writePackCheck) {
+        if (result.packCheckPlans.length) {
+          await applyRecordPlans(context, result.packCheckPlans, withLogs);
+        } else {
+          withLogs(t("audit.packCheckUpToDate"));
+        }
+      }
+    } catch (err) {
+      const message = (err as Error).message ?? t("audit.failed");
+      showError(message);
+    } finally {
+      busy = false;
+      $auditButton.prop("disabled", false).text(t("panel.audit"));
+      void refreshUndoState();
+    }
+  });
+
+  $("#packagingAdd").on("click", async () => {
+    const name = String($("#packagingName").val() ?? "").trim();
+    const tare = parseNumber($("#packagingTare") as JQuery<HTMLInputElement>);
+    const wallThicknessMm = parseNumber($("#packagingWall") as JQuery<HTMLInputElement>);
+    if (!name) {
+      showError(t("packaging.nameRequired"));
+      return;
+    }
+    if (packagingMaterials.some((material) => material.name === name)) {
+      showError(t("packaging.duplicate", { name }));
+      return;
+    }
+    if (tare < 0 || wallThicknessMm < 0) {
+      showError(t("packaging.negative"));
+      return;
+    }
+    const material: PackagingMaterial = {
+      id: `custom-${Date.now().toString(36)}`,
+      name,
+      tareMode: $("#packagingMode").val() as TareMode,
+      tare,
+      fitsProduct: Boolean($("#packagingFitsProduct").prop("checked")),
+      wallThicknessMm,
+    };
+    const next = [...packagingMaterials, material];
+    if (!(await savePackagingMaterials(next))) {
+      showError(t("packaging.saveFailed"));
+      return;
+    }
+    packagingMaterials = next;
+    renderPackaging();
+    $("#packagingName").val("");
+    $("#packagingTare").val("");
+    showToast(t("packaging.added", { name }), "success");
+  });
+
+  $packagingList.on("click", ".packaging-delete", async function () {
+    const id = $(this).attr("data-id");
+    const next = packagingMaterials.filter((material) => material.id !== id);
+    if (!(await savePackagingMaterials(next))) {
+      showError(t("packaging.saveFailed"));
+      return;
+    }
+    packagingMaterials = next;
+    renderPackaging();
+  });
+
+  $presetSelect.on("change", () => {
+    const preset = selectedPreset();
+    if (!preset) return;
+    $presetName.val(preset.name);
+    const unavailable = applyPresetValues(preset.values);
+    if (unavailable.length) {
+      withLogs(t("preset.unavailable", { name: preset.name }));
+    }
+    showToast(t("preset.applied", { name: preset.name }), "success");
+  });
+
+  $("#presetSaveAs").on("click", async () => {
+    const name = String($presetName.val() ?? "").trim();
+    if (!name) {
+      showError(t("preset.nameRequired"));
+      return;
+    }
+    const values = readPresetValues();
+    presets = await loadPresets();
+    const existing = presets.find((preset) => preset.name === name);
+    if (existing) {
+      const confirmed = await showConfirm(
+        t("preset.overwriteTitle"),
+        t("preset.overwriteMessage", { name })
+      );
+      if (!confirmed) return;
+    }
+    const id = existing?.id ?? `preset-${Date.now().toString(36)}`;
+    const next = [...presets.filter((preset) => preset.id !== id), { id, name, values }];
+    if (await storePresets(next, id)) {
+      showToast(t("preset.saved", { name }), "success");
+    }
+  });
+
+  $("#presetRename").on("click", async () => {
+    const preset = selectedPreset();
+    if (!preset) {
+      showError(t("preset.noSelection"));
+      return;
+    }
+    const name = String($presetName.val() ?? "").trim();
+    if (!name) {
+      showError(t("preset.nameRequired"));
+      return;
+    }
+    presets = await loadPresets();
+    if (presets.some((entry) => entry.name === name && entry.id !== preset.id)) {
+      showError(t("preset.duplicate", { name }));
+      return;
+    }
+    const next = presets.map((entry) => (entry.id === preset.id ? { ...entry, name } : entry));
+    if (await storePresets(next, preset.id)) {
+      showToast(t("preset.renamed", { name }), "success");
+    }
+  });
+
+  $("#presetDelete").on("click", async () => {
+    const preset = selectedPreset();
+    if (!preset) {
+      showError(t("preset.noSelection"));
+      return;
+    }
+    const confirmed = await showConfirm(
+      t("preset.deleteTitle"),
+      t("preset.deleteMessage", { name: preset.name })
+    );
+    if (!confirmed) return;
+    presets = await loadPresets();
+    const next = presets.filter((entry) => entry.id !== preset.id);
+    if (await storePresets(next, "")) {
+      $presetName.val("");
+      showToast(t("preset.deleted", { name: preset.name }), "success");
+    }
+  });
+
+  $previewDiscard.on("click", () => {
+    if (busy) return;
+    resetPreview();
+    withLogs(t("preview.discarded"));
+  });
+
+  $("#containerType").on("change", function () {
+    $("#customContainerRow").prop("hidden", $(this).val() !== "custom");
+  });
+
+  $("#palletType").on("change", function () {
+    $("#customPalletRow").prop("hidden", $(this).val() !== "custom");
+  });
+
+  $resultFilters.on("click", ".result-filter", function () {
+    resultCategory = ($(this).attr("data-category") || null) as RecordEventCategory | null;
+    renderResults();
+  });
+
+  $resultSearch.on("input", () => {
+    renderResults();
+  });
+
+  $resultList.on("click", ".result-item", async function () {
+    const recordId = $(this).attr("data-record-id");
+    if (!results || !recordId) return;
+    try {
+      await bitable.ui.showRecordDetailDialog({ tableId: results.tableId, recordId });
+    } catch (err) {
+      console.warn(t("warn.openRecord"), err);
+      showError(t("result.openFailed"));
+    }
+  });
+
+  $palletRecordSelect.on("change", function () {
+    showPalletPlan(Number($(this).val()));
+  });
+
+  /** e.g. packing-spec-20250101-0930 */
+  function reportFileName(): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `packing-spec-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(
+      now.getDate()
+    )}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+  }
+
+  $("#reportExportCsv").on("click", () => {
+    if (!report) return;
+    const rows = buildReportRows(report.reports, report.units);
+    downloadBlob(
+      new Blob([formatCsv(rows)], { type: "text/csv;charset=utf-8" }),
+      `${reportFileName()}.csv`
+    );
+  });
+
+  $("#reportExportXlsx").on("click", () => {
+    if (!report) return;
+    const rows = buildReportRows(report.reports, report.units);
+    downloadBlob(createXlsxBlob("Packing Spec", rows), `${reportFileName()}.xlsx`);
+  });
+
+  $("#diagramExportSvg").on("click", () => {
+    if (diagramSvg) exportSvg(diagramSvg, diagramFileName);
+  });
+
+  $("#diagramExportPng").on("click", async () => {
+    if (!diagramSvg) return;
+    try {
+      await exportPng(diagramSvg, diagramFileName);
+    } catch (err) {
+      showError((err as Error).message ?? t("diagram.pngFailed"));
+    }
+  });
+
+  $("#autoModeCheckbox").on("change", function () {
+    const enabled = $(this).prop("checked");
+    if (!enabled) {
+      autoRecordIds.clear();
+      if (autoTimer != null) window.clearTimeout(autoTimer);
+      autoTimer = null;
+    }
+    withLogs(t(enabled ? "auto.enabled" : "auto.disabled"));
+  });
+
+  /** Re-renders the static labels and the texts built by this module. */
+  function renderLanguage(language: Language) {
+    applyTranslations();
+    $languageSelect.val(language);
+    updateContextLabel(context);
+    updateMissingFieldTips(missingFields);
+    renderPackaging();
+    renderPresets();
+    if (!busy) {
+      $calculateButton.text(t("panel.calculate"));
+      $auditButton.text(t("panel.audit"));
+    }
+    if ($fieldMappingSection.prop("open")) void renderFieldMapping();
+    renderResults();
+    void refreshUndoState();
+  }
+
+  onLanguageChange(renderLanguage);
+
+  $languageSelect.on("change", function () {
+    const language = $(this).val() as Language;
+    saveLanguage(language);
+    setLanguage(language);
+  });
+
+  void detectLanguage().then((language) => {
+    setLanguage(language);
+    $languageSelect.val(getLanguage());
   });
 
   void refreshContext({ showLoading: true });
+  void loadPackaging();
+  void loadPresetList();
 }
@@ -0,0 +1,37 @@
+import $ from "jquery";
+import type { CasePackSuggestion } from "../core/casePack";
+import { formatNumber, t } from "../i18n";
+
+/**
+ * Renders the ranked suggestions as buttons; `data-index` points back into
+ * the list passed in. `formatLength` turns inches into the panel's unit.
+ */
+export function renderCasePackList(
+  $container: JQuery<HTMLElement>,
+  suggestions: CasePackSuggestion[],
+  formatLength: (inches: number) => string
+) {
+  $container.empty();
+  suggestions.forEach((suggestion, index) => {
+    const { innerQty, masterQty, master, grossWeightKg, fillRate } = suggestion;
+    const pack =
+      innerQty > 0
+        ? t("casePack.pack", { inner: innerQty, master: masterQty })
+        : t("casePack.noInner", { master: masterQty });
+    const size = [master.width, master.depth, master.height].map(formatLength).join(" × ");
+    const weight = grossWeightKg != null ? ` · ${formatNumber(grossWeightKg, 2)} kg` : "";
+
+    const $item = $('<button type="button" class="case-pack-item"></button>').attr(
+      "data-index",
+      index
+    );
+    $item.append($('<span class="case-pack-rank"></span>').text(`${index + 1}`));
+    $item.append($('<span class="case-pack-qty"></span>').text(pack));
+    $item.append(
+      $('<span class="case-pack-detail"></span>').text(
+        `${size}${weight} · ${t("casePack.fillRate", { rate: formatNumber(fillRate * 100, 1) })}`
+      )
+    );
+    $container.append($item);
+  });
+}
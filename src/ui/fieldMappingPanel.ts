@@ -0,0 +1,107 @@
+import $ from "jquery";
+import { FIELD_KEYS, OPTIONAL_FIELD_KEYS, type FieldIds } from "../config/fields";
+import type { FieldMapping } from "../core/fieldMapping";
+import { t } from "../i18n";
+import { getFieldIdByNames, suggestFieldId, type FieldMetaLike } from "../utils/field";
+
+interface MappingRow {
+  key: keyof FieldIds;
+  name: string;
+  aliases: readonly string[];
+  type?: number;
+  required: boolean;
+}
+
+const MAPPING_ROWS: MappingRow[] = [
+  ...Object.entries(FIELD_KEYS).map(([key, info]) => ({
+    key: key as keyof FieldIds,
+    name: info.name,
+    aliases: info.aliases,
+    type: info.type,
+    required: true,
+  })),
+  ...Object.entries(OPTIONAL_FIELD_KEYS).map(([key, info]) => ({
+    key: key as keyof FieldIds,
+    name: info.name,
+    aliases: "aliases" in info ? info.aliases : [],
+    type: "type" in info ? info.type : undefined,
+    required: false,
+  })),
+];
+
+/**
+ * Renders one dropdown per logical field. The saved mapping is preselected;
+ * otherwise the empty option keeps the automatic lookup by name and aliases and
+ * shows the column it resolves to. When neither the display name nor one of its
+ * metric/imperial aliases exists, a fuzzy match of the same type that no other
+ * field uses is shown as a hint, never preselected.
+ */
+export function renderFieldMappingPanel(
+  $container: JQuery<HTMLElement>,
+  fieldMetas: FieldMetaLike[],
+  mapping: FieldMapping
+) {
+  $container.empty();
+  const existingIds = new Set(fieldMetas.map((meta) => meta.id));
+  const rows = MAPPING_ROWS.map((row) => ({
+    ...row,
+    exactId: getFieldIdByNames(fieldMetas, [row.name, ...row.aliases], row.type),
+    savedId: mapping[row.key] && existingIds.has(mapping[row.key]!) ? mapping[row.key]! : "",
+  }));
+  const takenIds = new Set(rows.map((row) => row.savedId || row.exactId || "").filter(Boolean));
+
+  for (const row of rows) {
+    const { exactId, savedId } = row;
+    const exactName = fieldMetas.find((meta) => meta.id === exactId)?.name;
+    const suggestion =
+      !savedId && !exactId
+        ? suggestFieldId(fieldMetas, row.name, { expectType: row.type, takenIds })
+        : undefined;
+
+    const $select = $('<select class="select-input mapping-select"></select>').attr(
+      "data-key",
+      row.key
+    );
+    $select.append(
+      $("<option></option>")
+        .val("")
+        .text(
+          exactName
+            ? t("mapping.autoMatch", { name: exactName })
+            : t("mapping.autoMatchMissing")
+        )
+    );
+    for (const meta of fieldMetas) {
+      $select.append($("<option></option>").val(meta.id).text(meta.name));
+    }
+    $select.val(savedId);
+
+    const $label = $('<span class="mapping-label"></span>').text(
+      `${row.name}${row.required ? " *" : ""}`
+    );
+    const $row = $('<div class="mapping-row"></div>').append($label, $select);
+    if (suggestion) {
+      const suggestedName = fieldMetas.find((meta) => meta.id === suggestion.id)?.name ?? "";
+      $row.addClass("suggested");
+      $row.append(
+        $('<span class="mapping-hint"></span>').text(
+          t("mapping.suggestion", {
+            name: suggestedName,
+            score: Math.round(suggestion.score * 100),
+          })
+        )
+      );
+    }
+    $container.append($row);
+  }
+}
+
+export function readFieldMappingPanel($container: JQuery<HTMLElement>): FieldMapping {
+  const mapping: FieldMapping = {};
+  $container.find("select.mapping-select").each(function () {
+    const key = $(this).attr("data-key") as keyof FieldIds | undefined;
+    const fieldId = String($(this).val() ?? "");
+    if (key && fieldId) mapping[key] = fieldId;
+  });
+  return mapping;
+}
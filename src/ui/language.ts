@@ -0,0 +1,57 @@
+import $ from "jquery";
+import { bitable } from "@lark-base-open/js-sdk";
+import { getLanguage, getLocale, resolveLanguage, t, type Language, type MessageKey } from "../i18n";
+import { logError } from "../utils/logger";
+
+/**
+ * The switcher choice is kept per browser: plugin storage is shared by
+ * everyone in the Base, and colleagues may read different languages.
+ */
+const LANGUAGE_KEY = "sol-manager:language";
+
+function readSavedLanguage(): Language | null {
+  try {
+    const saved = window.localStorage.getItem(LANGUAGE_KEY);
+    return saved === "zh" || saved === "en" ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLanguage(language: Language) {
+  try {
+    window.localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (err) {
+    logError("language:save", err);
+  }
+}
+
+/** The language picked in the switcher, otherwise the Feishu client language. */
+export async function detectLanguage(): Promise<Language> {
+  const saved = readSavedLanguage();
+  if (saved) return saved;
+  try {
+    return resolveLanguage(await bitable.bridge.getLanguage());
+  } catch (err) {
+    logError("language:detect", err);
+    return getLanguage();
+  }
+}
+
+/**
+ * Translates the static markup: `data-i18n` replaces an element's text,
+ * `data-i18n-placeholder` its placeholder.
+ */
+export function applyTranslations(root: HTMLElement = document.body) {
+  $(root)
+    .find("[data-i18n]")
+    .each(function () {
+      $(this).text(t($(this).attr("data-i18n") as MessageKey));
+    });
+  $(root)
+    .find("[data-i18n-placeholder]")
+    .each(function () {
+      $(this).attr("placeholder", t($(this).attr("data-i18n-placeholder") as MessageKey));
+    });
+  document.documentElement.lang = getLocale();
+}
@@ -0,0 +1,54 @@
+import $ from "jquery";
+import { describeTare, type PackagingMaterial } from "../core/packaging";
+import { t } from "../i18n";
+
+/**
+ * Refills a material select and keeps the current choice when it still
+ * exists. `noneLabel` adds an empty first option.
+ */
+export function renderMaterialOptions(
+  $select: JQuery<HTMLElement>,
+  materials: PackagingMaterial[],
+  noneLabel?: string
+) {
+  const current = $select.val() as string | undefined;
+  $select.empty();
+  if (noneLabel) {
+    $select.append($("<option></option>").val("").text(noneLabel));
+  }
+  for (const material of materials) {
+    $select.append(
+      $("<option></option>")
+        .val(material.id)
+        .text(t("packaging.option", { name: material.name, tare: describeTare(material) }))
+    );
+  }
+  if (current != null && $select.find("option").filter((_, el) => $(el).val() === current).length) {
+    $select.val(current);
+  }
+}
+
+/** One row per material; user-added entries get a delete button (`data-id`). */
+export function renderPackagingList($container: JQuery<HTMLElement>, materials: PackagingMaterial[]) {
+  $container.empty();
+  for (const material of materials) {
+    const $row = $('<div class="packaging-row"></div>');
+    $row.append($('<span class="packaging-name"></span>').text(material.name));
+    const notes = [describeTare(material)];
+    if (material.wallThicknessMm > 0) {
+      notes.push(t("packaging.wall", { wall: material.wallThicknessMm }));
+    }
+    if (material.fitsProduct) notes.push(t("packaging.fitsProduct"));
+    $row.append($('<span class="packaging-tare"></span>').text(notes.join(" · ")));
+    if (material.builtIn) {
+      $row.append($('<span class="packaging-tag"></span>').text(t("packaging.builtIn")));
+    } else {
+      $row.append(
+        $('<button type="button" class="packaging-delete"></button>')
+          .attr("data-id", material.id)
+          .text(t("packaging.delete"))
+      );
+    }
+    $container.append($row);
+  }
+}
@@ -0,0 +1,317 @@
+import type { ArrangementResult } from "../core/arrangement";
+import { createSvgElement } from "./svg";
+import { t } from "../i18n";
+import { downloadBlob } from "../utils/download";
+
+export interface DiagramCarton {
+  title: string;
+  arrangement: ArrangementResult;
+}
+
+type Point3 = [number, number, number];
+type Point2 = [number, number];
+
+const CELL_WIDTH = 240;
+const CELL_HEIGHT = 180;
+const HEADER_HEIGHT = 22;
+const MARGIN = 26;
+const FONT_SIZE = 10;
+const COS_30 = Math.cos(Math.PI / 6);
+
+const FACE_FILLS = { top: "#dbeafe", right: "#93c5fd", front: "#bfdbfe" };
+
+/** Isometric projection with width running down-right and depth down-left. */
+function project([x, y, z]: Point3): Point2 {
+  return [(x - y) * COS_30, (x + y) / 2 - z];
+}
+
+/** Maps projected points into a cell, keeping the aspect ratio. */
+function fitToCell(points: Point2[], offsetX: number, offsetY: number) {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1;
+  const spanY = Math.max(...ys) - minY || 1;
+  const scale = Math.min((CELL_WIDTH - MARGIN * 2) / spanX, (CELL_HEIGHT - MARGIN * 2) / spanY);
+  const padX = (CELL_WIDTH - spanX * scale) / 2;
+  const padY = (CELL_HEIGHT - spanY * scale) / 2;
+  return ([x, y]: Point2): Point2 => [
+    offsetX + padX + (x - minX) * scale,
+    offsetY + padY + (y - minY) * scale,
+  ];
+}
+
+function polygon(points: Point2[], attrs: Record<string, string | number>) {
+  return createSvgElement("polygon", {
+    points: points.map(([x, y]) => `${x.toFixed(2)},${y.toFixed(2)}`).join(" "),
+    ...attrs,
+  });
+}
+
+function text(content: string, [x, y]: Point2, attrs: Record<string, string | number> = {}) {
+  const el = createSvgElement("text", {
+    x: x.toFixed(2),
+    y: y.toFixed(2),
+    "font-size": FONT_SIZE,
+    "text-anchor": "middle",
+    "dominant-baseline": "middle",
+    fill: "#1e293b",
+    ...attrs,
+  });
+  el.textContent = content;
+  return el;
+}
+
+/** Faces seen from the viewer: top, the +width side and the +depth side. */
+function visibleFaces(origin: Point3, size: Point3): Record<keyof typeof FACE_FILLS, Point3[]> {
+  const [x, y, z] = origin;
+  const [w, d, h] = size;
+  return {
+    top: [
+      [x, y, z + h],
+      [x + w, y, z + h],
+      [x + w, y + d, z + h],
+      [x, y + d, z + h],
+    ],
+    right: [
+      [x + w, y, z],
+      [x + w, y + d, z],
+      [x + w, y + d, z + h],
+      [x + w, y, z + h],
+    ],
+    front: [
+      [x, y + d, z],
+      [x + w, y + d, z],
+      [x + w, y + d, z + h],
+      [x, y + d, z + h],
+    ],
+  };
+}
+
+function gridOffset(arrangement: ArrangementResult): Point3 {
+  const { width, depth, height, unit, counts } = arrangement;
+  return [
+    (width - counts[0] * unit.width) / 2,
+    (depth - counts[1] * unit.depth) / 2,
+    (height - counts[2] * unit.height) / 2,
+  ];
+}
+
+function drawIsometric(
+  group: SVGGElement,
+  arrangement: ArrangementResult,
+  formatLength: (inches: number) => string,
+  offsetX: number,
+  offsetY: number
+) {
+  const { width, depth, height, unit, counts } = arrangement;
+  const [countW, countD, countH] = counts;
+  const corners: Point3[] = [
+    [0, 0, 0],
+    [width, 0, 0],
+    [0, depth, 0],
+    [width, depth, 0],
+    [0, 0, height],
+    [width, 0, height],
+    [0, depth, height],
+    [width, depth, height],
+  ];
+  const toCell = fitToCell(corners.map(project), offsetX, offsetY);
+  const map = (point: Point3) => toCell(project(point));
+
+  // Only cells on a visible face can be seen; draw them far to near.
+  const [offX, offY, offZ] = gridOffset(arrangement);
+  const cells: Point3[] = [];
+  for (let k = 0; k < countH; k += 1) {
+    for (let j = 0; j < countD; j += 1) {
+      for (let i = 0; i < countW; i += 1) {
+        if (i === countW - 1 || j === countD - 1 || k === countH - 1) cells.push([i, j, k]);
+      }
+    }
+  }
+  cells.sort((a, b) => a[0] + a[1] + a[2] - (b[0] + b[1] + b[2]));
+  for (const [i, j, k] of cells) {
+    const faces = visibleFaces(
+      [offX + i * unit.width, offY + j * unit.depth, offZ + k * unit.height],
+      [unit.width, unit.depth, unit.height]
+    );
+    for (const [face, points] of Object.entries(faces) as Array<[keyof typeof FACE_FILLS, Point3[]]>) {
+      group.appendChild(
+        polygon(points.map(map), {
+          fill: FACE_FILLS[face],
+          stroke: "#1e3a8a",
+          "stroke-width": 0.6,
+        })
+      );
+    }
+  }
+
+  // Carton shell drawn over the units so its edges stay readable.
+  for (const points of Object.values(visibleFaces([0, 0, 0], [width, depth, height]))) {
+    group.appendChild(
+      polygon(points.map(map), {
+        fill: "#a16207",
+        "fill-opacity": 0.08,
+        stroke: "#92400e",
+        "stroke-width": 1.2,
+      })
+    );
+  }
+
+  const [wx, wy] = map([width / 2, depth, 0]);
+  group.appendChild(text(`W ${formatLength(width)}`, [wx - 14, wy + 12]));
+  const [dx, dy] = map([width, depth / 2, 0]);
+  group.appendChild(text(`D ${formatLength(depth)}`, [dx + 14, dy + 12]));
+  const [hx, hy] = map([0, depth, height / 2]);
+  group.appendChild(text(`H ${formatLength(height)}`, [hx - 6, hy], { "text-anchor": "end" }));
+}
+
+function drawTopView(
+  group: SVGGElement,
+  arrangement: ArrangementResult,
+  formatLength: (inches: number) => string,
+  offsetX: number,
+  offsetY: number
+) {
+  const { width, depth, unit, counts } = arrangement;
+  const toCell = fitToCell(
+    [
+      [0, 0],
+      [width, depth],
+    ],
+    offsetX,
+    offsetY
+  );
+  const [x0, y0] = toCell([0, 0]);
+  const [x1, y1] = toCell([width, depth]);
+  group.appendChild(
+    createSvgElement("rect", {
+      x: x0.toFixed(2),
+      y: y0.toFixed(2),
+      width: (x1 - x0).toFixed(2),
+      height: (y1 - y0).toFixed(2),
+      fill: "#fef3c7",
+      stroke: "#92400e",
+      "stroke-width": 1.2,
+    })
+  );
+
+  const [offX, offY] = gridOffset(arrangement);
+  for (let j = 0; j < counts[1]; j += 1) {
+    for (let i = 0; i < counts[0]; i += 1) {
+      const [cx0, cy0] = toCell([offX + i * unit.width, offY + j * unit.depth]);
+      const [cx1, cy1] = toCell([offX + (i + 1) * unit.width, offY + (j + 1) * unit.depth]);
+      group.appendChild(
+        createSvgElement("rect", {
+          x: cx0.toFixed(2),
+          y: cy0.toFixed(2),
+          width: (cx1 - cx0).toFixed(2),
+          height: (cy1 - cy0).toFixed(2),
+          fill: FACE_FILLS.top,
+          stroke: "#1e3a8a",
+          "stroke-width": 0.6,
+        })
+      );
+    }
+  }
+
+  group.appendChild(text(`W ${formatLength(width)}`, [(x0 + x1) / 2, y1 + 10]));
+  const depthLabel = text(`D ${formatLength(depth)}`, [x1 + 10, (y0 + y1) / 2]);
+  depthLabel.setAttribute("transform", `rotate(90 ${(x1 + 10).toFixed(2)} ${((y0 + y1) / 2).toFixed(2)})`);
+  group.appendChild(depthLabel);
+  group.appendChild(
+    text(t("diagram.topView", { width: counts[0], depth: counts[1], layers: counts[2] }), [
+      (x0 + x1) / 2,
+      y0 - 10,
+    ])
+  );
+}
+
+/**
+ * Draws one row per carton: an isometric view of the packed units with the
+ * carton shell, and a top view of one layer. Sizes are inches and labelled
+ * with `formatLength`. Returns the SVG so it can be exported.
+ */
+export function renderPackingDiagram(
+  container: HTMLElement,
+  cartons: DiagramCarton[],
+  formatLength: (inches: number) => string
+): SVGSVGElement {
+  container.replaceChildren();
+  const rowHeight = HEADER_HEIGHT + CELL_HEIGHT;
+  const svg = createSvgElement("svg", {
+    xmlns: "http://www.w3.org/2000/svg",
+    viewBox: `0 0 ${CELL_WIDTH * 2} ${rowHeight * cartons.length}`,
+    width: CELL_WIDTH * 2,
+    height: rowHeight * cartons.length,
+    role: "img",
+    "font-family": "sans-serif",
+  });
+  svg.appendChild(
+    createSvgElement("rect", {
+      x: 0,
+      y: 0,
+      width: CELL_WIDTH * 2,
+      height: rowHeight * cartons.length,
+      fill: "#ffffff",
+    })
+  );
+
+  cartons.forEach(({ title, arrangement }, index) => {
+    const top = index * rowHeight;
+    const group = createSvgElement("g", {});
+    group.appendChild(
+      text(title, [8, top + HEADER_HEIGHT / 2 + 2], {
+        "text-anchor": "start",
+        "font-size": FONT_SIZE + 2,
+        "font-weight": 600,
+      })
+    );
+    drawIsometric(group, arrangement, formatLength, 0, top + HEADER_HEIGHT);
+    drawTopView(group, arrangement, formatLength, CELL_WIDTH, top + HEADER_HEIGHT);
+    svg.appendChild(group);
+  });
+
+  container.appendChild(svg);
+  return svg;
+}
+
+function serializeSvg(svg: SVGSVGElement): string {
+  return new XMLSerializer().serializeToString(svg);
+}
+
+export function exportSvg(svg: SVGSVGElement, filename: string) {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: "image/svg+xml" }), `${filename}.svg`);
+}
+
+/** Rasterises the diagram at `scale` × its natural size. */
+export function exportPng(svg: SVGSVGElement, filename: string, scale = 2): Promise<void> {
+  const width = Number(svg.getAttribute("width")) * scale;
+  const height = Number(svg.getAttribute("height")) * scale;
+  const source = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(serializeSvg(svg))}`;
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error(t("diagram.noCanvas")));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error(t("diagram.pngFailed")));
+          return;
+        }
+        downloadBlob(blob, `${filename}.png`);
+        resolve();
+      }, "image/png");
+    };
+    image.onerror = () => reject(new Error(t("diagram.pngFailed")));
+    image.src = source;
+  });
+}
@@ -0,0 +1,56 @@
+import type { PalletPlan } from "../core/pallet";
+import { createSvgElement } from "./svg";
+
+/**
+ * Draws one pallet layer seen from above: the pallet deck and every master
+ * carton footprint, numbered in placement order. Units are centimetres.
+ */
+export function renderPalletLayer(container: HTMLElement, plan: PalletPlan) {
+  container.replaceChildren();
+  const { lengthCm, widthCm } = plan.spec;
+  const margin = 4;
+  const svg = createSvgElement("svg", {
+    viewBox: `${-margin} ${-margin} ${lengthCm + margin * 2} ${widthCm + margin * 2}`,
+    role: "img",
+    "aria-label": `${plan.spec.type} pallet layer`,
+  });
+
+  svg.appendChild(
+    createSvgElement("rect", {
+      x: 0,
+      y: 0,
+      width: lengthCm,
+      height: widthCm,
+      fill: "#e7d3b0",
+      stroke: "#92400e",
+      "stroke-width": 0.8,
+    })
+  );
+
+  const fontSize = Math.max(2.5, Math.min(lengthCm, widthCm) / 25);
+  plan.layer.forEach((box, index) => {
+    svg.appendChild(
+      createSvgElement("rect", {
+        x: box.x,
+        y: box.y,
+        width: box.length,
+        height: box.width,
+        fill: box.length >= box.width ? "#bfdbfe" : "#c7d2fe",
+        stroke: "#1e3a8a",
+        "stroke-width": 0.5,
+      })
+    );
+    const label = createSvgElement("text", {
+      x: box.x + box.length / 2,
+      y: box.y + box.width / 2,
+      "font-size": fontSize,
+      "text-anchor": "middle",
+      "dominant-baseline": "middle",
+      fill: "#1e293b",
+    });
+    label.textContent = String(index + 1);
+    svg.appendChild(label);
+  });
+
+  container.appendChild(svg);
+}
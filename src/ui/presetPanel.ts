@@ -0,0 +1,84 @@
+import $ from "jquery";
+import type { CalculationPreset, PresetValues } from "../core/presets";
+import { t } from "../i18n";
+
+/** The panel inputs behind `CalculationOptions`; run scope and auto mode are left out. */
+const PRESET_INPUT_IDS = [
+  "innerBuffer",
+  "masterBuffer",
+  "bufferUnit",
+  "itemDimensionUnit",
+  "itemWeightUnit",
+  "cartonDimensionUnit",
+  "innerWeightUnit",
+  "netWeightUnit",
+  "innerMaterial",
+  "masterMaterial",
+  "orientationMode",
+  "objective",
+  "maxGrossWeight",
+  "maxSide",
+  "maxGirth",
+  "maxLayers",
+  "containerType",
+  "containerLength",
+  "containerWidth",
+  "containerHeight",
+  "containerPayload",
+  "dimProfile",
+  "palletType",
+  "palletLength",
+  "palletWidth",
+  "palletDeckHeight",
+  "palletOwnWeight",
+  "palletMaxHeight",
+  "palletMaxWeight",
+] as const;
+
+export function readPresetValues(): PresetValues {
+  const values: PresetValues = {};
+  for (const id of PRESET_INPUT_IDS) {
+    const value = $(`#${id}`).val();
+    if (value != null) values[id] = String(value);
+  }
+  return values;
+}
+
+/**
+ * Fills the panel from a preset and fires `change` so dependent rows (custom
+ * container and pallet) follow. Returns the ids whose saved option no longer
+ * exists, e.g. a deleted packaging material; those inputs keep their value.
+ */
+export function applyPresetValues(values: PresetValues): string[] {
+  const unavailable: string[] = [];
+  for (const id of PRESET_INPUT_IDS) {
+    const value = values[id];
+    if (value == null) continue;
+    const $input = $(`#${id}`);
+    const offered =
+      !$input.is("select") ||
+      $input
+        .find("option")
+        .toArray()
+        .some((option) => (option as HTMLOptionElement).value === value);
+    if (!offered) {
+      unavailable.push(id);
+      continue;
+    }
+    $input.val(value).trigger("change");
+  }
+  return unavailable;
+}
+
+export function renderPresetOptions(
+  $select: JQuery<HTMLElement>,
+  presets: CalculationPreset[],
+  selectedId: string
+) {
+  $select.empty();
+  $select.append($('<option value=""></option>').text(t("panel.presets.none")));
+  for (const preset of presets) {
+    $select.append($("<option></option>").val(preset.id).text(preset.name));
+  }
+  $select.val(presets.some((preset) => preset.id === selectedId) ? selectedId : "");
+}
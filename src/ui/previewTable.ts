@@ -0,0 +1,70 @@
+import $ from "jquery";
+import { FIELD_KEYS, OPTIONAL_FIELD_KEYS, type FieldIds } from "../config/fields";
+import type { RecordPlan } from "../core/calculator";
+import { t } from "../i18n";
+import { extractNumber } from "../utils/numbers";
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(
+  [...Object.entries(FIELD_KEYS), ...Object.entries(OPTIONAL_FIELD_KEYS)].map(
+    ([key, info]) => [key, info.name]
+  )
+);
+
+export function getFieldLabel(key: keyof FieldIds): string {
+  return FIELD_LABELS[key] ?? key;
+}
+
+export function formatCellValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  const numeric = extractNumber(value);
+  if (numeric != null) return String(numeric);
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Renders one block of rows per record with its pending changes. Each record
+ * gets a checkbox (ticked by default) so it can be left out of the write.
+ */
+export function renderPreviewTable($container: JQuery<HTMLElement>, plans: RecordPlan[]) {
+  $container.empty();
+  const $table = $('<table class="preview-table"></table>');
+  const $head = $("<tr></tr>").append("<th></th>");
+  for (const key of ["preview.record", "preview.field", "preview.before", "preview.after"] as const) {
+    $head.append($("<th></th>").text(t(key)));
+  }
+  $table.append($("<thead></thead>").append($head));
+  const $body = $("<tbody></tbody>");
+
+  for (const plan of plans) {
+    if (!plan.changes.length) continue;
+    plan.changes.forEach((change, index) => {
+      const $row = $("<tr></tr>");
+      if (index === 0) {
+        const $checkbox = $('<input type="checkbox" class="preview-accept" checked />').attr(
+          "data-record-id",
+          plan.recordId
+        );
+        $row.addClass("preview-record-start");
+        $row.append($("<td></td>").attr("rowspan", plan.changes.length).append($checkbox));
+        $row.append($("<td></td>").attr("rowspan", plan.changes.length).text(plan.label));
+      }
+      $row.append($("<td></td>").text(getFieldLabel(change.key)));
+      $row.append($('<td class="preview-before"></td>').text(formatCellValue(change.before)));
+      $row.append($('<td class="preview-after"></td>').text(formatCellValue(change.after)));
+      $body.append($row);
+    });
+  }
+
+  $table.append($body);
+  $container.append($table);
+}
+
+export function getAcceptedRecordIds($container: JQuery<HTMLElement>): Set<string> {
+  const accepted = new Set<string>();
+  $container.find("input.preview-accept:checked").each(function () {
+    const recordId = $(this).attr("data-record-id");
+    if (recordId) accepted.add(recordId);
+  });
+  return accepted;
+}
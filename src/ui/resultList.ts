@@ -0,0 +1,74 @@
+import $ from "jquery";
+import type { RecordEvent, RecordEventCategory } from "../core/calculator";
+import { RECORD_EVENT_CATEGORIES, countRecordEvents } from "../core/recordEvents";
+import { t, type MessageKey } from "../i18n";
+import { formatCellValue, getFieldLabel } from "./previewTable";
+
+const CATEGORY_LABELS = {
+  error: "result.category.error",
+  skipped: "result.category.skipped",
+  updated: "result.category.updated",
+  unchanged: "result.category.unchanged",
+} as const satisfies Record<RecordEventCategory, MessageKey>;
+
+/**
+ * One toggle per category with its count, after an "all" toggle. The active
+ * one is marked; `data-category` is empty for "all".
+ */
+export function renderResultFilters(
+  $container: JQuery<HTMLElement>,
+  events: RecordEvent[],
+  active: RecordEventCategory | null
+) {
+  $container.empty();
+  const counts = countRecordEvents(events);
+  const entries: Array<[RecordEventCategory | null, string, number]> = [
+    [null, t("result.category.all"), events.length],
+    ...RECORD_EVENT_CATEGORIES.map(
+      (category): [RecordEventCategory, string, number] => [
+        category,
+        t(CATEGORY_LABELS[category]),
+        counts[category],
+      ]
+    ),
+  ];
+  for (const [category, label, count] of entries) {
+    const $toggle = $('<button type="button" class="result-filter"></button>')
+      .attr("data-category", category ?? "")
+      .toggleClass("active", category === active)
+      .text(t("result.filter", { label, count }));
+    if (category) $toggle.addClass(`result-filter-${category}`);
+    $container.append($toggle);
+  }
+}
+
+/** One button per event; `data-record-id` identifies the record to open. */
+export function renderResultList($container: JQuery<HTMLElement>, events: RecordEvent[]) {
+  $container.empty();
+  for (const event of events) {
+    const $item = $('<button type="button" class="result-item"></button>')
+      .attr("data-record-id", event.recordId)
+      .addClass(`result-severity-${event.severity}`);
+    const $head = $('<div class="result-head"></div>');
+    $head.append(
+      $('<span class="result-category"></span>')
+        .addClass(`result-category-${event.category}`)
+        .text(t(CATEGORY_LABELS[event.category]))
+    );
+    $head.append($('<span class="result-label"></span>').text(event.label));
+    $item.append($head);
+    $item.append($('<span class="result-message"></span>').text(event.message));
+    for (const change of event.changes) {
+      $item.append(
+        $('<span class="result-change"></span>').text(
+          t("result.change", {
+            field: getFieldLabel(change.key),
+            before: formatCellValue(change.before),
+            after: formatCellValue(change.after),
+          })
+        )
+      );
+    }
+    $container.append($item);
+  }
+}
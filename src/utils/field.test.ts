@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { suggestFieldId, type FieldMetaLike } from "./field";
+
+const metas: FieldMetaLike[] = [
+  { id: "fldNet", name: "N.W. (kg)", type: 2 },
+  { id: "fldNote", name: "GW (kg)", type: 1 },
+  { id: "fldItem", name: "Item Height (inch)", type: 2 },
+];
+
+describe("suggestFieldId", () => {
+  it("proposes the most similar column", () => {
+    expect(suggestFieldId(metas, "G.W. (kg)")?.id).toBe("fldNote");
+  });
+
+  it("skips columns of another type", () => {
+    expect(suggestFieldId(metas, "G.W. (kg)", { expectType: 2 })?.id).toBe("fldNet");
+  });
+
+  it("skips columns other keys already use", () => {
+    const takenIds = new Set(["fldNet", "fldItem"]);
+    expect(suggestFieldId(metas, "G.W. (kg)", { expectType: 2, takenIds })).toBeUndefined();
+    expect(suggestFieldId(metas, "Pallet Height (inch)", { takenIds })).toBeUndefined();
+    expect(suggestFieldId(metas, "Pallet Height (inch)")?.id).toBe("fldItem");
+  });
+});
@@ -1,5 +1,5 @@
 import type { FieldKey } from "../config/fields";
-import { normalizeFieldName } from "./strings";
+import { fieldNameSimilarity, normalizeFieldName } from "./strings";
 
 export interface FieldMetaLike {
   id: string;
@@ -23,4 +23,41 @@ export function getFieldIdByName(
   return candidate?.id;
 }
 
+/** Looks up the first of `names` that exists in the table. */
+export function getFieldIdByNames(
+  fieldMetas: FieldMetaLike[],
+  names: readonly string[],
+  expectType?: number
+): string | undefined {
+  for (const name of names) {
+    const id = getFieldIdByName(fieldMetas, name, expectType);
+    if (id) return id;
+  }
+  return undefined;
+}
+
+/**
+ * Best fuzzy match for `name` among the field metas, or `undefined` when no
+ * field is similar enough to be worth suggesting. Fields of another type than
+ * `expectType` and the ids in `takenIds` (columns other keys already use) are
+ * never suggested.
+ */
+export function suggestFieldId(
+  fieldMetas: FieldMetaLike[],
+  name: string,
+  options: { expectType?: number; takenIds?: ReadonlySet<string>; minScore?: number } = {}
+): { id: string; score: number } | undefined {
+  const { expectType, takenIds, minScore = 0.6 } = options;
+  let best: { id: string; score: number } | undefined;
+  for (const meta of fieldMetas) {
+    if (expectType != null && meta.type !== expectType) continue;
+    if (takenIds?.has(meta.id)) continue;
+    const score = fieldNameSimilarity(meta.name, name);
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { id: meta.id, score };
+    }
+  }
+  return best;
+}
+
 export type FieldIdMap = Record<FieldKey, string>;
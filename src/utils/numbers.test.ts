@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertBufferToInches,
+  convertGramsToWeight,
+  convertWeightToGrams,
+  extractNumber,
+  round,
+} from "./numbers";
+
+describe("extractNumber", () => {
+  it("reads plain numbers and numeric strings", () => {
+    expect(extractNumber(12)).toBe(12);
+    expect(extractNumber(0)).toBe(0);
+    expect(extractNumber("3.5")).toBe(3.5);
+    expect(extractNumber(" 7 ")).toBe(7);
+  });
+
+  it("reads the value of number cell objects", () => {
+    expect(extractNumber({ value: 42 })).toBe(42);
+    expect(extractNumber({ value: "42" })).toBeNull();
+  });
+
+  it("returns null for empty and non-numeric cells", () => {
+    expect(extractNumber(null)).toBeNull();
+    expect(extractNumber(undefined)).toBeNull();
+    expect(extractNumber("abc")).toBeNull();
+    expect(extractNumber(Number.NaN)).toBeNull();
+    expect(extractNumber(Number.POSITIVE_INFINITY)).toBeNull();
+    expect(extractNumber([{ text: "5" }])).toBeNull();
+  });
+});
+
+describe("unit conversion", () => {
+  it("converts cm buffers to inches", () => {
+    expect(convertBufferToInches(2.54, "cm")).toBeCloseTo(1, 10);
+    expect(convertBufferToInches(1, "inch")).toBe(1);
+    expect(convertBufferToInches(Number.NaN, "cm")).toBe(0);
+  });
+
+  it("uses 0.00220462 lbs per gram", () => {
+    expect(convertGramsToWeight(1000, "lb")).toBeCloseTo(2.20462, 10);
+    expect(convertWeightToGrams(2.20462, "lb")).toBeCloseTo(1000, 6);
+    expect(convertGramsToWeight(3600, "kg")).toBe(3.6);
+  });
+
+  it("rounds half up", () => {
+    expect(round(2.2046, 3)).toBe(2.205);
+    expect(round(1.005, 2)).toBe(1.01);
+  });
+});
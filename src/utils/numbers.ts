@@ -22,3 +22,59 @@ export function extractNumber(cellValue: unknown): number | null {
   }
   return null;
 }
+
+export function convertCubicInchesToCbm(value: number): number {
+  const METRES_PER_INCH = 0.0254;
+  if (!Number.isFinite(value)) return 0;
+  return value * METRES_PER_INCH ** 3;
+}
+
+export function convertInchesToCm(value: number): number {
+  const CM_PER_INCH = 2.54;
+  if (!Number.isFinite(value)) return 0;
+  return value * CM_PER_INCH;
+}
+
+export function convertCmToInches(value: number): number {
+  return convertBufferToInches(value, "cm");
+}
+
+export type LengthUnit = "inch" | "cm" | "mm";
+export type WeightUnit = "g" | "kg" | "lb";
+
+const MM_PER_INCH = 25.4;
+const POUNDS_PER_GRAM = 0.00220462;
+
+export function convertLengthToInches(value: number, unit: LengthUnit): number {
+  if (!Number.isFinite(value)) return 0;
+  if (unit === "mm") return value / MM_PER_INCH;
+  if (unit === "cm") return (value * 10) / MM_PER_INCH;
+  return value;
+}
+
+export function convertInchesToLength(value: number, unit: LengthUnit): number {
+  if (!Number.isFinite(value)) return 0;
+  if (unit === "mm") return value * MM_PER_INCH;
+  if (unit === "cm") return (value * MM_PER_INCH) / 10;
+  return value;
+}
+
+export function convertWeightToGrams(value: number, unit: WeightUnit): number {
+  if (!Number.isFinite(value)) return 0;
+  if (unit === "kg") return value * 1000;
+  if (unit === "lb") return value / POUNDS_PER_GRAM;
+  return value;
+}
+
+export function convertGramsToWeight(value: number, unit: WeightUnit): number {
+  if (!Number.isFinite(value)) return 0;
+  if (unit === "kg") return value / 1000;
+  if (unit === "lb") return value * POUNDS_PER_GRAM;
+  return value;
+}
+
+export function formatUnit(unit: LengthUnit | WeightUnit): string {
+  if (unit === "inch") return "in";
+  if (unit === "lb") return "lbs";
+  return unit;
+}
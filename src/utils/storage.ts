@@ -0,0 +1,41 @@
+import { bitable } from "@lark-base-open/js-sdk";
+import { logError } from "./logger";
+
+/** Key-value store behind the plugin data; the Base's bridge storage by default. */
+export interface PluginStorage {
+  getData<T>(key: string): Promise<T | null | undefined>;
+  setData<T>(key: string, data: T): Promise<boolean>;
+}
+
+let storage: PluginStorage = {
+  getData: <T>(key: string) => bitable.bridge.getData<T>(key),
+  setData: <T>(key: string, data: T) => bitable.bridge.setData<T>(key, data),
+};
+
+/** Swaps the backing store, e.g. for an in-memory one when running headless. */
+export function setPluginStorage(next: PluginStorage) {
+  storage = next;
+}
+
+/**
+ * Reads data persisted for this plugin in the current Base. Storage is shared
+ * by everyone who opens the plugin in the same Base.
+ */
+export async function readPluginData<T>(key: string, fallback: T): Promise<T> {
+  try {
+    const data = await storage.getData<T>(key);
+    return data ?? fallback;
+  } catch (err) {
+    logError(`storage:get:${key}`, err);
+    return fallback;
+  }
+}
+
+export async function writePluginData<T>(key: string, data: T): Promise<boolean> {
+  try {
+    return await storage.setData<T>(key, data);
+  } catch (err) {
+    logError(`storage:set:${key}`, err);
+    return false;
+  }
+}
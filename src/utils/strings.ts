@@ -1,3 +1,43 @@
 export function normalizeFieldName(name: string): string {
   return name.replace(/\s+/g, " ").trim().toLowerCase();
 }
+
+function compactName(name: string): string {
+  return normalizeFieldName(name).replace(/[^a-z0-9\u4e00-\u9fff]+/g, "");
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i += 1) {
+    grams.push(value.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Similarity between two field names in [0, 1] (Dice coefficient over
+ * character bigrams), ignoring case, spacing and punctuation so that
+ * "Item Weight ( g )" and "item weight(g)" score 1.
+ */
+export function fieldNameSimilarity(a: string, b: string): number {
+  const left = compactName(a);
+  const right = compactName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (!leftGrams.length || !rightGrams.length) return 0;
+  const counts = new Map<string, number>();
+  for (const gram of leftGrams) {
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (const gram of rightGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap += 1;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+}
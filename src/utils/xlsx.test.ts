@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { createXlsxBlob } from "./xlsx";
+
+/** Bit-by-bit CRC-32, as a reference for the table-driven one in the writer. */
+function referenceCrc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  text: string;
+  /** Checksum stored in the archive. */
+  crc: number;
+  /** Checksum of the stored bytes. */
+  actualCrc: number;
+}
+
+/** Reads a stored (uncompressed) zip through its central directory. */
+async function readZip(blob: Blob): Promise<Map<string, ZipEntry>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const files = new Map<string, ZipEntry>();
+  let entry = view.getUint32(end + 16, true);
+  for (let index = view.getUint16(end + 10, true); index > 0; index -= 1) {
+    expect(view.getUint32(entry, true)).toBe(0x02014b50);
+    expect(view.getUint16(entry + 10, true)).toBe(0);
+    const crc = view.getUint32(entry + 16, true);
+    const size = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const local = view.getUint32(entry + 42, true);
+    const name = decoder.decode(bytes.subarray(entry + 46, entry + 46 + nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + size);
+    files.set(name, { text: decoder.decode(data), crc, actualCrc: referenceCrc32(data) });
+    entry += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("createXlsxBlob", () => {
+  it("checks the reference CRC against the standard test vector", () => {
+    expect(referenceCrc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("writes the parts of a single-sheet workbook with valid checksums", async () => {
+    const files = await readZip(createXlsxBlob("Packing", [["A"], [1]]));
+
+    expect([...files.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    for (const file of files.values()) {
+      expect(file.crc).toBe(file.actualCrc);
+    }
+    expect(files.get("xl/workbook.xml")?.text).toContain('<sheet name="Packing"');
+  });
+
+  it("writes numbers as values and text as escaped inline strings", async () => {
+    const rows = [
+      ["Item", "尺寸 <cm> & \"qty\"", null],
+      [-2.5, "", Number.NaN],
+    ];
+    const sheet = (await readZip(createXlsxBlob("Sheet", rows))).get("xl/worksheets/sheet1.xml")!;
+
+    expect(sheet.text).toContain(
+      '<c r="B1" t="inlineStr"><is><t xml:space="preserve">' +
+        "尺寸 &lt;cm&gt; &amp; &quot;qty&quot;</t></is></c>"
+    );
+    expect(sheet.text).toContain('<row r="2"><c r="A2"><v>-2.5</v></c></row>');
+    expect(sheet.text).not.toContain("C1");
+  });
+
+  it("names columns past Z like a spreadsheet", async () => {
+    const row = Array.from({ length: 28 }, (_, index) => index);
+    const sheet = (await readZip(createXlsxBlob("Sheet", [row]))).get("xl/worksheets/sheet1.xml")!;
+
+    expect(sheet.text).toContain('<c r="Z1"><v>25</v></c>');
+    expect(sheet.text).toContain('<c r="AB1"><v>27</v></c>');
+  });
+
+  it("cuts the sheet name to the 31 characters Excel allows", async () => {
+    const files = await readZip(createXlsxBlob("x".repeat(40), []));
+
+    expect(files.get("xl/workbook.xml")?.text).toContain(`<sheet name="${"x".repeat(31)}"`);
+  });
+});